@@ -1,21 +1,24 @@
-import { Injectable, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import {
+  Inject,
+  Injectable,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
 import { PrismaClient } from '@prisma/client';
 import { PrismaPg } from '@prisma/adapter-pg';
 import { Pool } from 'pg';
+import databaseConfig from 'src/config/database.config';
 
 @Injectable()
 export class PrismaService
   extends PrismaClient
   implements OnModuleInit, OnModuleDestroy
 {
-  constructor() {
-    const connectionString = process.env.DATABASE_URL as string;
-
-    if (!connectionString) {
-      throw new Error('DATABASE_URL is not defined in environment variables');
-    }
-
-    const pool = new Pool({ connectionString });
+  constructor(
+    @Inject(databaseConfig.KEY) config: ConfigType<typeof databaseConfig>,
+  ) {
+    const pool = new Pool({ connectionString: config.url });
     const adapter = new PrismaPg(pool);
 
     super({
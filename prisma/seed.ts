@@ -0,0 +1,47 @@
+import 'dotenv/config';
+import { PrismaPg } from '@prisma/adapter-pg';
+import { PrismaClient } from '@prisma/client';
+import { Pool } from 'pg';
+import { BASELINE_ROLES as ROLES } from '../src/auth/services/permission/baseline-roles';
+
+// resets the baseline roles to their defaults; the app only creates the ones
+// that are missing when it boots
+async function main() {
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+  const prisma = new PrismaClient({ adapter: new PrismaPg(pool) });
+
+  const permissions = [
+    ...new Set(Object.values(ROLES).flatMap((role) => role.permissions)),
+  ];
+  for (const name of permissions) {
+    await prisma.permission.upsert({
+      where: { name },
+      update: {},
+      create: { name },
+    });
+  }
+
+  // create every role first so inheritance can point at any of them
+  for (const name of Object.keys(ROLES)) {
+    await prisma.role.upsert({ where: { name }, update: {}, create: { name } });
+  }
+
+  for (const [name, role] of Object.entries(ROLES)) {
+    await prisma.role.update({
+      where: { name },
+      data: {
+        permissions: {
+          set: role.permissions.map((permission) => ({ name: permission })),
+        },
+        inherits: { set: role.inherits.map((parent) => ({ name: parent })) },
+      },
+    });
+  }
+
+  await prisma.$disconnect();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
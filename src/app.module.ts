@@ -6,16 +6,23 @@ import { PrismaModule } from 'prisma/prisma.module';
 import { UserModule } from './user/users.module';
 import { CommonModule } from './common/common.module';
 import { AuthModule } from './auth/auth.module';
+import { AuditAdminModule } from './audit/audit-admin.module';
+import { validate } from './config/env.validation';
+import appConfig from './config/app.config';
+import databaseConfig from './config/database.config';
 @Module({
   imports: [
     ConfigModule.forRoot({
       isGlobal: true,
       envFilePath: '.env',
+      validate,
+      load: [appConfig, databaseConfig],
     }),
     PrismaModule,
     UserModule,
     CommonModule,
-    AuthModule,
+    AuthModule.forRoot({}),
+    AuditAdminModule,
   ],
   controllers: [AppController],
   providers: [AppService],
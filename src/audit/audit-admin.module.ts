@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { AuditController } from './audit.controller';
+import { AuditModule } from './audit.module';
+
+// the routes for browsing the audit log
+@Module({
+  imports: [AuditModule],
+  controllers: [AuditController],
+})
+export class AuditAdminModule {}
@@ -0,0 +1,15 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { RequirePermissions } from 'src/common/decorators/permissions.decorator';
+import { AuditService } from './audit.service';
+import { AuditQueryDto } from './dto/audit-query.dto';
+
+@Controller('admin/audit')
+@RequirePermissions('audit:read')
+export class AuditController {
+  constructor(private auditService: AuditService) {}
+
+  @Get()
+  findAll(@Query() query: AuditQueryDto) {
+    return this.auditService.findMany(query);
+  }
+}
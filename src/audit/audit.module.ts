@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { AuditService } from './audit.service';
+
+// the audit log writer, without routes, so AuthModule can bring it along
+@Module({
+  providers: [AuditService],
+  exports: [AuditService],
+})
+export class AuditModule {}
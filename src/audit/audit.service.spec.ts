@@ -0,0 +1,97 @@
+import { Logger } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { AuditAction } from '@prisma/client';
+import { PrismaService } from 'prisma/prisma.service';
+import { AuditService } from './audit.service';
+
+describe('AuditService', () => {
+  let service: AuditService;
+  const prisma = {
+    auditEvent: { create: jest.fn(), findMany: jest.fn() },
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [AuditService, { provide: PrismaService, useValue: prisma }],
+    }).compile();
+
+    service = module.get<AuditService>(AuditService);
+  });
+
+  it('stores the actor, target and request details', async () => {
+    const entry = {
+      action: AuditAction.ROLE_CHANGE,
+      actorId: 'admin-1',
+      targetId: 'user-1',
+      ip: '10.0.0.1',
+      userAgent: 'curl/8.0',
+      metadata: { from: 'USER', to: 'ADMIN' },
+    };
+
+    await service.record(entry);
+
+    expect(prisma.auditEvent.create).toHaveBeenCalledWith({ data: entry });
+  });
+
+  it('never fails the request being audited', async () => {
+    prisma.auditEvent.create.mockRejectedValue(new Error('db down'));
+    const logError = jest
+      .spyOn(Logger.prototype, 'error')
+      .mockImplementation(() => undefined);
+
+    await expect(
+      service.record({ action: AuditAction.LOGOUT, actorId: 'user-1' }),
+    ).resolves.toBeUndefined();
+    expect(logError).toHaveBeenCalledWith(
+      'Failed to record LOGOUT event',
+      expect.any(Error),
+    );
+    logError.mockRestore();
+  });
+
+  describe('findMany', () => {
+    const events = (count: number) =>
+      Array.from({ length: count }, (_, i) => ({ id: `event-${i + 1}` }));
+
+    it('filters and returns a cursor while there are more events', async () => {
+      const from = new Date('2026-01-01T00:00:00Z');
+      prisma.auditEvent.findMany.mockResolvedValue(events(3));
+
+      const page = await service.findMany({
+        action: AuditAction.LOGIN_FAILURE,
+        targetId: 'user-1',
+        from,
+        limit: 2,
+      });
+
+      expect(prisma.auditEvent.findMany).toHaveBeenCalledWith({
+        where: {
+          action: AuditAction.LOGIN_FAILURE,
+          actorId: undefined,
+          targetId: 'user-1',
+          createdAt: { gte: from, lte: undefined },
+        },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        // one extra to know whether another page follows
+        take: 3,
+      });
+      expect(page).toEqual({
+        items: events(2),
+        nextCursor: 'event-2',
+      });
+    });
+
+    it('continues after the cursor and ends on the last page', async () => {
+      prisma.auditEvent.findMany.mockResolvedValue(events(1));
+
+      const page = await service.findMany({ cursor: 'event-2', limit: 2 });
+
+      expect(prisma.auditEvent.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ cursor: { id: 'event-2' }, skip: 1 }),
+      );
+      expect(page).toEqual({ items: events(1), nextCursor: null });
+    });
+  });
+});
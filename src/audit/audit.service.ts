@@ -0,0 +1,57 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { AuditAction, Prisma } from '@prisma/client';
+import { PrismaService } from 'prisma/prisma.service';
+import { AuditQueryDto } from './dto/audit-query.dto';
+
+export interface AuditEntry {
+  action: AuditAction;
+  actorId?: string;
+  targetId?: string;
+  ip?: string;
+  userAgent?: string;
+  metadata?: Prisma.InputJsonObject;
+}
+
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+  private readonly defaultLimit = 50;
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Persist an audit event. Failures are logged and swallowed so that
+   * auditing never breaks the request being audited.
+   */
+  async record(entry: AuditEntry): Promise<void> {
+    try {
+      await this.prisma.auditEvent.create({ data: entry });
+    } catch (error) {
+      this.logger.error(`Failed to record ${entry.action} event`, error);
+    }
+  }
+
+  // newest first, paginated with the id of the last event seen
+  async findMany(query: AuditQueryDto) {
+    const limit = query.limit ?? this.defaultLimit;
+    const events = await this.prisma.auditEvent.findMany({
+      where: {
+        action: query.action,
+        actorId: query.actorId,
+        targetId: query.targetId,
+        createdAt: { gte: query.from, lte: query.to },
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+    });
+
+    const hasMore = events.length > limit;
+    const items = hasMore ? events.slice(0, limit) : events;
+
+    return {
+      items,
+      nextCursor: hasMore ? items[items.length - 1].id : null,
+    };
+  }
+}
@@ -0,0 +1,46 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+} from '@nestjs/common';
+import { InteractiveOnly } from 'src/common/decorators/interactive-only.decorator';
+import { RequirePermissions } from 'src/common/decorators/permissions.decorator';
+import type { AuthenticatedUser } from 'src/common/decorators/user.decorator';
+import { User } from 'src/common/decorators/user.decorator';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { ApiKeyService } from './services/api-key/api-key.service';
+
+// keys are managed from a real login, so a leaked key can't mint more
+@Controller('auth/api-keys')
+@InteractiveOnly()
+export class ApiKeyController {
+  constructor(private apiKeyService: ApiKeyService) {}
+
+  @Post()
+  @RequirePermissions('profile:write')
+  @HttpCode(HttpStatus.CREATED)
+  create(
+    @Body() createApiKeyDto: CreateApiKeyDto,
+    @User() user: AuthenticatedUser,
+  ) {
+    return this.apiKeyService.create(user.userId, createApiKeyDto);
+  }
+
+  @Get()
+  @RequirePermissions('profile:read')
+  list(@User() user: AuthenticatedUser) {
+    return this.apiKeyService.list(user.userId);
+  }
+
+  @Delete(':id')
+  @RequirePermissions('profile:write')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async revoke(@Param('id') id: string, @User() user: AuthenticatedUser) {
+    await this.apiKeyService.revoke(user.userId, id);
+  }
+}
@@ -0,0 +1,38 @@
+import { Type } from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import type { PasswordPolicy } from './services/password-policy/password-policy.service';
+import type { SessionStore } from './services/session/stores/session-store.interface';
+import type { UserLookup } from './user-lookup/user-lookup.interface';
+
+export interface SessionLifetimeOptions {
+  // seconds without a request before the session ends
+  idleTimeout?: number;
+  // seconds after login the session ends however active it is
+  absoluteTimeout?: number;
+}
+
+/**
+ * Options for AuthModule.forRoot. Anything left out falls back to the
+ * matching environment variable, then to the built-in default.
+ */
+export interface AuthModuleOptions {
+  jwt?: {
+    // access token lifetime, in seconds or a duration like "15m"
+    expiresIn?: number | string;
+    // `iss` and `aud` of access tokens; checked on every request when set
+    issuer?: string;
+    audience?: string;
+  };
+  // seconds
+  refreshTokenTtl?: number;
+  session?: SessionLifetimeOptions & {
+    store?: 'redis' | 'memory' | 'prisma' | SessionStore;
+    roles?: Partial<Record<UserRole, SessionLifetimeOptions>>;
+    // seconds between writes that slide the idle timeout
+    touchInterval?: number;
+  };
+  passwordPolicy?: Partial<Omit<PasswordPolicy, 'breachCheck'>>;
+  // where the auth services find and change users; PrismaUserLookup when
+  // omitted
+  userLookup?: Type<UserLookup>;
+}
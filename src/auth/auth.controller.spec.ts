@@ -0,0 +1,131 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from 'prisma/prisma.service';
+import { AuditService } from 'src/audit/audit.service';
+import type { AuthenticatedUser } from 'src/common/decorators/user.decorator';
+import { RedisService } from 'src/common/services/redis.service';
+import redisConfig from 'src/config/redis.config';
+import sessionConfig from 'src/config/session.config';
+import tokensConfig from 'src/config/tokens.config';
+import { AuthController } from './auth.controller';
+import { AUTH_MODULE_OPTIONS } from './auth.module-definition';
+import { EmailVerificationService } from './services/email-verification/email-verification.service';
+import { AuthJwtService } from './services/jwt/jwt.service';
+import { PasswordLoginService } from './services/login/password-login.service';
+import { PasswordPolicyService } from './services/password-policy/password-policy.service';
+import { PasswordResetService } from './services/password-reset/password-reset.service';
+import { RefreshTokenService } from './services/refresh-token/refresh-token.service';
+import { SessionService } from './services/session/session.service';
+import { MemorySessionStore } from './services/session/stores/memory-session.store';
+import { SESSION_STORE } from './services/session/stores/session-store.interface';
+import { TokenVersionService } from './services/token-version/token-version.service';
+import { USER_LOOKUP } from './user-lookup/user-lookup.interface';
+
+describe('AuthController', () => {
+  let controller: AuthController;
+  let sessionService: SessionService;
+  const jane: AuthenticatedUser = {
+    userId: 'user-1',
+    email: 'jane@example.com',
+    tokenId: 'jane-laptop',
+  };
+  const prisma = {
+    refreshToken: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [AuthController],
+      providers: [
+        SessionService,
+        RefreshTokenService,
+        TokenVersionService,
+        RedisService,
+        { provide: SESSION_STORE, useClass: MemorySessionStore },
+        { provide: redisConfig.KEY, useValue: { enabled: false } },
+        { provide: sessionConfig.KEY, useValue: sessionConfig() },
+        { provide: tokensConfig.KEY, useValue: tokensConfig() },
+        { provide: AUTH_MODULE_OPTIONS, useValue: {} },
+        { provide: PrismaService, useValue: prisma },
+        { provide: AuditService, useValue: { record: jest.fn() } },
+        { provide: AuthJwtService, useValue: {} },
+        { provide: USER_LOOKUP, useValue: {} },
+        { provide: EmailVerificationService, useValue: {} },
+        { provide: PasswordResetService, useValue: {} },
+        { provide: PasswordPolicyService, useValue: {} },
+        { provide: PasswordLoginService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<AuthController>(AuthController);
+    sessionService = module.get<SessionService>(SessionService);
+
+    await sessionService.createSession('jane-laptop', {
+      userId: 'user-1',
+      email: 'jane@example.com',
+      ip: '10.0.0.1',
+      userAgent: 'Mozilla/5.0 (X11; Linux x86_64; rv:128.0) Firefox/128.0',
+    });
+    await sessionService.createSession('jane-phone', {
+      userId: 'user-1',
+      email: 'jane@example.com',
+      deviceLabel: 'Phone',
+    });
+    await sessionService.createSession('bob-laptop', {
+      userId: 'user-2',
+      email: 'bob@example.com',
+    });
+  });
+
+  const sessionIds = async (userId: string) =>
+    (await sessionService.getUserSessions(userId))
+      .map((session) => session.tokenId)
+      .sort();
+
+  it('lists the sessions of the caller and marks the current one', async () => {
+    const sessions = await controller.getSessions(jane);
+
+    expect(sessions).toHaveLength(2);
+    expect(sessions).toContainEqual(
+      expect.objectContaining({
+        id: 'jane-laptop',
+        ip: '10.0.0.1',
+        deviceLabel: 'Firefox on Linux',
+        current: true,
+      }),
+    );
+    expect(sessions).toContainEqual(
+      expect.objectContaining({ id: 'jane-phone', current: false }),
+    );
+  });
+
+  it('ends only the current session on logout', async () => {
+    await controller.logout(jane, '10.0.0.1');
+
+    expect(await sessionIds('user-1')).toEqual(['jane-phone']);
+  });
+
+  it('ends every session of the caller on logout-all', async () => {
+    await controller.logoutAll(jane, '10.0.0.1');
+
+    expect(await sessionIds('user-1')).toEqual([]);
+    expect(await sessionIds('user-2')).toEqual(['bob-laptop']);
+  });
+
+  it('ends another device of the caller', async () => {
+    await controller.revokeSession('jane-phone', jane);
+
+    expect(await sessionIds('user-1')).toEqual(['jane-laptop']);
+  });
+
+  it("can't end someone else's session", async () => {
+    await expect(controller.revokeSession('bob-laptop', jane)).rejects.toThrow(
+      NotFoundException,
+    );
+    expect(await sessionIds('user-2')).toEqual(['bob-laptop']);
+  });
+});
@@ -0,0 +1,213 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Ip,
+  NotFoundException,
+  Param,
+  Post,
+  SerializeOptions,
+} from '@nestjs/common';
+import { AuditAction } from '@prisma/client';
+import { AuditService } from 'src/audit/audit.service';
+import { Public } from 'src/common/decorators/public.decorator';
+import { InteractiveOnly } from 'src/common/decorators/interactive-only.decorator';
+import { RequirePermissions } from 'src/common/decorators/permissions.decorator';
+import { SerializationGroup } from 'src/common/interceptors/serializer.interceptor';
+import { RateLimit } from 'src/common/decorators/rate-limit.decorator';
+import type { AuthenticatedUser } from 'src/common/decorators/user.decorator';
+import { User } from 'src/common/decorators/user.decorator';
+import { LoginUserDto } from './dto/login-user.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { VerifyEmailDto } from './dto/verify-email.dto';
+import { ResendVerificationDto } from './dto/resend-verification.dto';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { EmailVerificationService } from './services/email-verification/email-verification.service';
+import { PasswordResetService } from './services/password-reset/password-reset.service';
+import { PasswordLoginService } from './services/login/password-login.service';
+import { PasswordPolicyService } from './services/password-policy/password-policy.service';
+import { RefreshTokenService } from './services/refresh-token/refresh-token.service';
+import { SessionService } from './services/session/session.service';
+
+@Controller('auth')
+export class AuthController {
+  constructor(
+    private refreshTokenService: RefreshTokenService,
+    private sessionService: SessionService,
+    private emailVerificationService: EmailVerificationService,
+    private passwordResetService: PasswordResetService,
+    private auditService: AuditService,
+    private passwordPolicyService: PasswordPolicyService,
+    private passwordLoginService: PasswordLoginService,
+  ) {}
+
+  @Public()
+  @Post('login')
+  @SerializeOptions({ groups: [SerializationGroup.SELF] })
+  @HttpCode(HttpStatus.OK)
+  login(
+    @Body() loginUserDto: LoginUserDto,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.passwordLoginService.login(loginUserDto, {
+      ip,
+      userAgent,
+      deviceLabel: loginUserDto.deviceLabel,
+    });
+  }
+
+  @Public()
+  @Post('verify-email')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async verifyEmail(@Body() verifyEmailDto: VerifyEmailDto) {
+    await this.emailVerificationService.verify(verifyEmailDto.token);
+  }
+
+  // always accepted so the route can't be used to probe for accounts
+  @Public()
+  @RateLimit({ points: 3, duration: 900, key: 'ip' })
+  @Post('verify-email/resend')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async resendVerification(
+    @Body() resendVerificationDto: ResendVerificationDto,
+  ) {
+    await this.emailVerificationService.resend(resendVerificationDto.email);
+  }
+
+  // same response whether or not the email belongs to an account
+  @Public()
+  @RateLimit({ points: 5, duration: 900, key: 'ip' })
+  @Post('password/forgot')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto) {
+    await this.passwordResetService.requestReset(forgotPasswordDto.email);
+  }
+
+  @Public()
+  @RateLimit({ points: 10, duration: 900, key: 'ip' })
+  @Post('password/reset')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async resetPassword(@Body() resetPasswordDto: ResetPasswordDto) {
+    await this.passwordResetService.resetPassword(
+      resetPasswordDto.token,
+      resetPasswordDto.password,
+    );
+  }
+
+  // lets clients show the rules before the user submits a password
+  @Public()
+  @Get('password/policy')
+  getPasswordPolicy() {
+    return this.passwordPolicyService.getPolicy();
+  }
+
+  @Get('me')
+  @RequirePermissions('profile:read')
+  me(@User() user: AuthenticatedUser) {
+    return {
+      userId: user.userId,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+    };
+  }
+
+  @Public()
+  @RateLimit({ points: 30, duration: 60, key: 'ip' })
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  refresh(
+    @Body() refreshTokenDto: RefreshTokenDto,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.refreshTokenService.rotate(refreshTokenDto.refreshToken, {
+      ip,
+      userAgent,
+    });
+  }
+
+  @Post('logout')
+  @RequirePermissions('sessions:manage')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async logout(
+    @User() user: AuthenticatedUser,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    if (user.tokenId) {
+      await this.refreshTokenService.revokeSession(user.tokenId);
+    }
+    await this.auditService.record({
+      action: AuditAction.LOGOUT,
+      actorId: user.userId,
+      targetId: user.userId,
+      ip,
+      userAgent,
+      metadata: { scope: 'current' },
+    });
+  }
+
+  @Post('logout-all')
+  @InteractiveOnly()
+  @RequirePermissions('sessions:manage')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async logoutAll(
+    @User() user: AuthenticatedUser,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    await this.refreshTokenService.revokeAllForUser(user.userId);
+    await this.auditService.record({
+      action: AuditAction.LOGOUT,
+      actorId: user.userId,
+      targetId: user.userId,
+      ip,
+      userAgent,
+      metadata: { scope: 'all' },
+    });
+  }
+
+  @Get('sessions')
+  @RequirePermissions('sessions:manage')
+  async getSessions(@User() user: AuthenticatedUser) {
+    const sessions = await this.sessionService.getUserSessions(user.userId);
+    return sessions.map((session) => ({
+      id: session.tokenId,
+      createdAt: session.createdAt,
+      lastSeenAt: session.lastSeenAt,
+      expiresAt: session.absoluteExpiresAt,
+      ip: session.ip,
+      userAgent: session.userAgent,
+      deviceLabel: session.deviceLabel,
+      current: session.tokenId === user.tokenId,
+    }));
+  }
+
+  @Delete('sessions/:id')
+  @RequirePermissions('sessions:manage')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async revokeSession(
+    @Param('id') id: string,
+    @User() user: AuthenticatedUser,
+  ) {
+    const session = await this.sessionService.getSession(id);
+    if (!session || session.userId !== user.userId) {
+      throw new NotFoundException(`Session with ID ${id} not found`);
+    }
+
+    await this.refreshTokenService.revokeSession(id);
+    await this.auditService.record({
+      action: AuditAction.LOGOUT,
+      actorId: user.userId,
+      targetId: user.userId,
+      metadata: { scope: 'session', sessionId: id },
+    });
+  }
+}
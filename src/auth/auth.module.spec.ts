@@ -0,0 +1,135 @@
+import { Controller, Get, INestApplication, Injectable } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { PrismaModule } from 'prisma/prisma.module';
+import { PrismaService } from 'prisma/prisma.service';
+import { Public } from 'src/common/decorators/public.decorator';
+import { RedisService } from 'src/common/services/redis.service';
+import { AuthModule } from './auth.module';
+import type { AuthModuleOptions } from './auth-module-options.interface';
+import { AuthJwtService } from './services/jwt/jwt.service';
+import { BASELINE_ROLES } from './services/permission/baseline-roles';
+import { MemorySessionStore } from './services/session/stores/memory-session.store';
+import { SESSION_STORE } from './services/session/stores/session-store.interface';
+import { PrismaUserLookup } from './user-lookup/prisma-user.lookup';
+import { USER_LOOKUP } from './user-lookup/user-lookup.interface';
+
+@Injectable()
+class DirectoryUserLookup extends PrismaUserLookup {}
+
+// a controller from another module that never mentions the guards
+@Controller('reports')
+class ReportsController {
+  @Get()
+  list() {
+    return [];
+  }
+
+  @Public()
+  @Get('status')
+  status() {
+    return { ok: true };
+  }
+}
+
+describe('AuthModule', () => {
+  const jwtSecret = process.env.JWT_SECRET;
+  beforeAll(() => {
+    process.env.JWT_SECRET = 's'.repeat(32);
+  });
+  afterAll(() => {
+    process.env.JWT_SECRET = jwtSecret;
+  });
+
+  const compile = (authModule: ReturnType<typeof AuthModule.forRoot>) =>
+    Test.createTestingModule({
+      controllers: [ReportsController],
+      imports: [
+        // the modules register the config namespaces they read
+        ConfigModule.forRoot({ isGlobal: true, ignoreEnvFile: true }),
+        PrismaModule,
+        authModule,
+      ],
+    })
+      // nothing here connects; the module only has to wire up, and the
+      // baseline roles already exist so bootstrap has nothing to create
+      .overrideProvider(PrismaService)
+      .useValue({
+        role: {
+          findMany: () =>
+            Promise.resolve(
+              Object.keys(BASELINE_ROLES).map((name) => ({ name })),
+            ),
+        },
+      })
+      .overrideProvider(RedisService)
+      .useValue({})
+      .compile();
+
+  it('applies forRoot options', async () => {
+    const module = await compile(
+      AuthModule.forRoot({
+        jwt: { issuer: 'https://auth.example.com', audience: 'api' },
+        session: { store: 'memory' },
+        userLookup: DirectoryUserLookup,
+      }),
+    );
+
+    expect(module.get(USER_LOOKUP)).toBeInstanceOf(DirectoryUserLookup);
+    expect(module.get(SESSION_STORE)).toBeInstanceOf(MemorySessionStore);
+
+    const jwtService = module.get(AuthJwtService);
+    const tokenFor = (audience: string) =>
+      jwtService.signPurposeToken(
+        { sub: 'user-1', iss: 'https://auth.example.com' },
+        audience,
+        60,
+      );
+    await expect(
+      jwtService.verifyToken(await tokenFor('api')),
+    ).resolves.toMatchObject({ sub: 'user-1' });
+    await expect(
+      jwtService.verifyToken(await tokenFor('another-api')),
+    ).resolves.toBeNull();
+  });
+
+  it('guards every route unless it is marked public', async () => {
+    const module = await compile(
+      AuthModule.forRoot({ session: { store: 'memory' } }),
+    );
+    const app = module.createNestApplication<INestApplication<App>>({
+      logger: false,
+    });
+    await app.init();
+    const server = app.getHttpServer();
+
+    await request(server).get('/reports').expect(401);
+    await request(server)
+      .get('/reports')
+      .set('Authorization', 'Bearer not-a-token')
+      .expect(401);
+    await request(server).get('/auth/me').expect(401);
+    await request(server).get('/reports/status').expect(200, { ok: true });
+    await request(server).get('/auth/password/policy').expect(200);
+
+    await app.close();
+  });
+
+  it('resolves forRootAsync options from injected providers', async () => {
+    const module = await compile(
+      AuthModule.forRootAsync({
+        useFactory: (configService: ConfigService): AuthModuleOptions => ({
+          session: {
+            store: configService.get('SESSION_STORE', 'memory') as 'memory',
+          },
+        }),
+        inject: [ConfigService],
+      }),
+    );
+
+    expect(module.get(SESSION_STORE)).toBeInstanceOf(MemorySessionStore);
+    expect(module.get(USER_LOOKUP)).toBeInstanceOf(PrismaUserLookup);
+  });
+});
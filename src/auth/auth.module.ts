@@ -1,50 +1,195 @@
 import { Module } from '@nestjs/common';
+import { APP_GUARD, ModuleRef } from '@nestjs/core';
 import { JwtModule } from '@nestjs/jwt';
-import { ConfigModule, ConfigService } from '@nestjs/config';
-import * as jwt from 'jsonwebtoken';
+import { ConfigModule } from '@nestjs/config';
+import type { ConfigType } from '@nestjs/config';
+import jwtConfig from 'src/config/jwt.config';
+import loginConfig from 'src/config/login.config';
+import mfaConfig from 'src/config/mfa.config';
+import oauthConfig from 'src/config/oauth.config';
+import passwordConfig from 'src/config/password.config';
+import sessionConfig from 'src/config/session.config';
+import tokensConfig from 'src/config/tokens.config';
+import {
+  AUTH_MODULE_OPTIONS,
+  ConfigurableAuthModule,
+} from './auth.module-definition';
+import type { AuthModuleOptions } from './auth-module-options.interface';
+import { USER_LOOKUP } from './user-lookup/user-lookup.interface';
+import { PrismaUserLookup } from './user-lookup/prisma-user.lookup';
+import { PasswordLoginService } from './services/login/password-login.service';
 import { AuthJwtService } from './services/jwt/jwt.service';
+import { JwtKeyService } from './services/jwt/jwt-key.service';
 import { CommonModule } from 'src/common/common.module';
 import { SessionService } from './services/session/session.service';
+import {
+  SESSION_STORE,
+  SessionStore,
+} from './services/session/stores/session-store.interface';
+import { RedisSessionStore } from './services/session/stores/redis-session.store';
+import { MemorySessionStore } from './services/session/stores/memory-session.store';
+import { PrismaSessionStore } from './services/session/stores/prisma-session.store';
+import { RedisService } from 'src/common/services/redis.service';
+import { PrismaService } from 'prisma/prisma.service';
+import { TokenVersionService } from './services/token-version/token-version.service';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { PassportModule } from '@nestjs/passport';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { RolesGuard } from './guards/roles.guard';
+import { RateLimitGuard } from './guards/rate-limit.guard';
+import { PermissionsGuard } from './guards/permissions.guard';
+import { PoliciesGuard } from './guards/policies.guard';
+import { AbilityFactory } from './policies/ability.factory';
+import { PermissionService } from './services/permission/permission.service';
+import { RefreshTokenService } from './services/refresh-token/refresh-token.service';
+import { UserTokenService } from './services/user-token/user-token.service';
+import { EmailVerificationService } from './services/email-verification/email-verification.service';
+import { PasswordResetService } from './services/password-reset/password-reset.service';
+import { LoginService } from './services/login/login.service';
+import { TotpService } from './services/mfa/totp.service';
+import { MfaService } from './services/mfa/mfa.service';
+import { LoginThrottleService } from './services/login-throttle/login-throttle.service';
+import { AuthController } from './auth.controller';
+import { MfaController } from './mfa.controller';
+import { JwksController } from './jwks.controller';
+import { InvitationController } from './invitation.controller';
+import { OAuthController } from './oauth.controller';
+import { OAuthService } from './services/oauth/oauth.service';
+import { OAuthServerController } from './oauth-server.controller';
+import { ApiKeyController } from './api-key.controller';
+import { ApiKeyService } from './services/api-key/api-key.service';
+import { ApiKeyStrategy } from './strategies/api-key.strategy';
+import { OAuthClientsController } from './oauth-clients.controller';
+import { OAuthClientService } from './services/oauth-server/oauth-client.service';
+import { OAuthServerService } from './services/oauth-server/oauth-server.service';
+import { OidcClientService } from './services/oauth/oidc-client.service';
+import { InvitationService } from './services/invitation/invitation.service';
+import { PasswordPolicyService } from './services/password-policy/password-policy.service';
+import { BreachedPasswordService } from './services/password-policy/breached-password.service';
+import { AuditModule } from 'src/audit/audit.module';
 @Module({
   imports: [
     PassportModule,
     CommonModule,
-    JwtModule.registerAsync({
-      imports: [ConfigModule],
-      useFactory: (configService: ConfigService) => {
-        const secret = configService.get<string>('JWT_SECRET');
-        if (!secret) {
-          throw new Error('JWT_SECRET is not defined in environment variables');
-        }
-        const expiresIn = configService.get<string>('JWT_EXPIRES_IN', '1h');
-        return {
-          secret,
-          signOptions: {
-            expiresIn: expiresIn as jwt.SignOptions['expiresIn'],
-          },
-        };
-      },
-      inject: [ConfigService],
-    }),
+    AuditModule,
+    ConfigModule.forFeature(jwtConfig),
+    ConfigModule.forFeature(loginConfig),
+    ConfigModule.forFeature(mfaConfig),
+    ConfigModule.forFeature(oauthConfig),
+    ConfigModule.forFeature(passwordConfig),
+    ConfigModule.forFeature(sessionConfig),
+    ConfigModule.forFeature(tokensConfig),
+    // keys and lifetimes are passed per call by AuthJwtService
+    JwtModule.register({}),
+  ],
+  controllers: [
+    AuthController,
+    MfaController,
+    JwksController,
+    InvitationController,
+    OAuthController,
+    OAuthServerController,
+    OAuthClientsController,
+    ApiKeyController,
   ],
   providers: [
+    {
+      provide: SESSION_STORE,
+      // the sessionStore option, else SESSION_STORE=memory or prisma; redis
+      // unless configured otherwise
+      useFactory: (
+        options: AuthModuleOptions,
+        config: ConfigType<typeof sessionConfig>,
+        redisService: RedisService,
+        prisma: PrismaService,
+      ): SessionStore => {
+        const store = options.session?.store ?? config.store;
+        if (typeof store === 'object') {
+          return store;
+        }
+        switch (store) {
+          case 'memory':
+            return new MemorySessionStore();
+          case 'prisma':
+            return new PrismaSessionStore(prisma);
+          default:
+            return new RedisSessionStore(redisService);
+        }
+      },
+      inject: [
+        AUTH_MODULE_OPTIONS,
+        sessionConfig.KEY,
+        RedisService,
+        PrismaService,
+      ],
+    },
+    {
+      provide: USER_LOOKUP,
+      useFactory: (options: AuthModuleOptions, moduleRef: ModuleRef) =>
+        moduleRef.create(options.userLookup ?? PrismaUserLookup),
+      inject: [AUTH_MODULE_OPTIONS, ModuleRef],
+    },
+    JwtKeyService,
     AuthJwtService,
     SessionService,
+    TokenVersionService,
+    RefreshTokenService,
+    UserTokenService,
+    EmailVerificationService,
+    PasswordResetService,
+    LoginService,
+    PasswordLoginService,
+    TotpService,
+    MfaService,
+    LoginThrottleService,
+    PermissionService,
+    AbilityFactory,
+    InvitationService,
+    BreachedPasswordService,
+    PasswordPolicyService,
+    OidcClientService,
+    OAuthService,
+    OAuthClientService,
+    OAuthServerService,
+    ApiKeyService,
     JwtStrategy,
+    ApiKeyStrategy,
     JwtAuthGuard,
     RolesGuard,
+    RateLimitGuard,
+    PermissionsGuard,
+    PoliciesGuard,
+    // every route requires a valid token unless marked @Public()
+    { provide: APP_GUARD, useClass: JwtAuthGuard },
+    // runs after authentication so limits can be keyed by user
+    { provide: APP_GUARD, useClass: RateLimitGuard },
+    { provide: APP_GUARD, useClass: RolesGuard },
+    { provide: APP_GUARD, useClass: PermissionsGuard },
+    { provide: APP_GUARD, useClass: PoliciesGuard },
   ],
   exports: [
     JwtModule,
+    JwtKeyService,
     AuthJwtService,
     SessionService,
+    TokenVersionService,
+    RefreshTokenService,
+    UserTokenService,
+    EmailVerificationService,
+    PasswordResetService,
+    LoginService,
+    PasswordLoginService,
+    MfaService,
+    LoginThrottleService,
+    PermissionService,
+    AbilityFactory,
+    PasswordPolicyService,
     PassportModule,
     JwtAuthGuard,
     RolesGuard,
+    RateLimitGuard,
+    PermissionsGuard,
+    PoliciesGuard,
   ],
 })
-export class AuthModule {}
+export class AuthModule extends ConfigurableAuthModule {}
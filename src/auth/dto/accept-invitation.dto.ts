@@ -0,0 +1,16 @@
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class AcceptInvitationDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Token is required' })
+  token: string;
+
+  // length and strength rules live in PasswordPolicyService
+  @IsString()
+  @IsNotEmpty({ message: 'Password is required' })
+  password: string;
+
+  @IsString()
+  @IsOptional()
+  name?: string;
+}
@@ -0,0 +1,8 @@
+import { IsBoolean } from 'class-validator';
+import { AuthorizeRequestDto } from './authorize-request.dto';
+
+// sent by the consent screen with the original request parameters
+export class AuthorizeDecisionDto extends AuthorizeRequestDto {
+  @IsBoolean()
+  approve: boolean;
+}
@@ -0,0 +1,59 @@
+import { Allow, IsIn, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+// parameters of an authorization request, as the client put them on the URL
+export class AuthorizeRequestDto {
+  @IsIn(['code'])
+  response_type: string;
+
+  @IsString()
+  @IsNotEmpty()
+  client_id: string;
+
+  @IsString()
+  @IsNotEmpty()
+  redirect_uri: string;
+
+  @IsString()
+  @IsOptional()
+  scope?: string;
+
+  @IsString()
+  @IsOptional()
+  state?: string;
+
+  @IsString()
+  @IsNotEmpty({ message: 'PKCE code_challenge is required' })
+  code_challenge: string;
+
+  @IsIn(['S256'])
+  code_challenge_method: string;
+
+  @IsString()
+  @IsOptional()
+  nonce?: string;
+
+  // standard OIDC parameters clients send routinely; accepted and ignored
+  @Allow()
+  prompt?: unknown;
+
+  @Allow()
+  login_hint?: unknown;
+
+  @Allow()
+  max_age?: unknown;
+
+  @Allow()
+  ui_locales?: unknown;
+
+  @Allow()
+  display?: unknown;
+
+  @Allow()
+  id_token_hint?: unknown;
+
+  @Allow()
+  acr_values?: unknown;
+
+  @Allow()
+  response_mode?: unknown;
+}
@@ -0,0 +1,24 @@
+import {
+  IsArray,
+  IsDateString,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateApiKeyDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Name is required' })
+  @MaxLength(100)
+  name: string;
+
+  // permission names, e.g. users:read; each must be held by the owner
+  @IsArray()
+  @IsString({ each: true })
+  scopes: string[];
+
+  @IsDateString()
+  @IsOptional()
+  expiresAt?: string;
+}
@@ -0,0 +1,14 @@
+import { UserRole } from '@prisma/client';
+import { IsEmail, IsEnum, IsNotEmpty, IsOptional } from 'class-validator';
+
+export class CreateInvitationDto {
+  @IsEmail({}, { message: 'Please provide a valid email address' })
+  @IsNotEmpty({ message: 'Email is required' })
+  email: string;
+
+  @IsOptional()
+  @IsEnum(UserRole as object, {
+    message: 'Role must be one of: USER, ADMIN, MODERATOR, MANAGER',
+  })
+  role?: UserRole;
+}
@@ -0,0 +1,42 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Matches,
+} from 'class-validator';
+import {
+  OAUTH_GRANT_TYPES,
+  OAuthGrantType,
+} from '../services/oauth-server/oauth-server.constants';
+
+export class CreateOAuthClientDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Name is required' })
+  name: string;
+
+  @IsArray()
+  @IsUrl({ require_tld: false }, { each: true })
+  redirectUris: string[];
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(OAUTH_GRANT_TYPES, { each: true })
+  grantTypes: OAuthGrantType[];
+
+  @IsArray()
+  @Matches(/^[\x21\x23-\x5b\x5d-\x7e]+$/, {
+    each: true,
+    message: 'Each scope must be a single token without spaces',
+  })
+  scopes: string[];
+
+  // public clients (SPAs, mobile apps) get no secret and rely on PKCE alone
+  @IsBoolean()
+  @IsOptional()
+  confidential?: boolean;
+}
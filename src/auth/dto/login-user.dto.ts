@@ -1,4 +1,10 @@
-import { IsEmail, IsNotEmpty, IsString } from 'class-validator';
+import {
+  IsEmail,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
 
 export class LoginUserDto {
   @IsEmail({}, { message: 'Please provide a valid email address' })
@@ -8,4 +14,10 @@ export class LoginUserDto {
   @IsString()
   @IsNotEmpty({ message: 'Password is required' })
   password: string;
+
+  // e.g. "Build server"; shown in the session list instead of the browser
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  deviceLabel?: string;
 }
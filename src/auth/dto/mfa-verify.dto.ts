@@ -0,0 +1,11 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class MfaVerifyDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Challenge token is required' })
+  challengeToken: string;
+
+  @IsString()
+  @IsNotEmpty({ message: 'Code is required' })
+  code: string;
+}
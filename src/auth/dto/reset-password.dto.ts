@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class ResetPasswordDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Token is required' })
+  token: string;
+
+  // length and strength rules live in PasswordPolicyService
+  @IsString()
+  @IsNotEmpty({ message: 'Password is required' })
+  password: string;
+}
@@ -0,0 +1,37 @@
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+// body of POST /oauth/token; which fields are required depends on grant_type
+export class TokenRequestDto {
+  @IsString()
+  @IsNotEmpty()
+  grant_type: string;
+
+  @IsString()
+  @IsOptional()
+  code?: string;
+
+  @IsString()
+  @IsOptional()
+  redirect_uri?: string;
+
+  @IsString()
+  @IsOptional()
+  code_verifier?: string;
+
+  @IsString()
+  @IsOptional()
+  refresh_token?: string;
+
+  @IsString()
+  @IsOptional()
+  scope?: string;
+
+  // client_secret_post; client_secret_basic uses the Authorization header
+  @IsString()
+  @IsOptional()
+  client_id?: string;
+
+  @IsString()
+  @IsOptional()
+  client_secret?: string;
+}
@@ -0,0 +1,128 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PrismaService } from 'prisma/prisma.service';
+import { RedisService } from 'src/common/services/redis.service';
+import tokensConfig from 'src/config/tokens.config';
+import { UserRole } from '@prisma/client';
+import { OAuthClientAccess } from 'src/common/decorators/oauth-client-access.decorator';
+import { InteractiveOnly } from 'src/common/decorators/interactive-only.decorator';
+import { RequirePermissions } from 'src/common/decorators/permissions.decorator';
+import type { AuthenticatedUser } from 'src/common/decorators/user.decorator';
+import type { UserLookup } from '../user-lookup/user-lookup.interface';
+import { MfaService } from '../services/mfa/mfa.service';
+import { PermissionService } from '../services/permission/permission.service';
+import { PermissionsGuard } from './permissions.guard';
+
+class TestController {
+  open() {}
+
+  @RequirePermissions('users:read')
+  listUsers() {}
+
+  @InteractiveOnly()
+  @RequirePermissions('profile:read')
+  changePassword() {}
+
+  @OAuthClientAccess()
+  userInfo() {}
+}
+
+describe('PermissionsGuard', () => {
+  const granted: Record<string, string[]> = {
+    'user-1': ['profile:read'],
+    'admin-1': ['users:*', 'profile:read'],
+  };
+  const permissionService = new PermissionService(
+    {} as PrismaService,
+    {} as RedisService,
+    tokensConfig(),
+    {} as UserLookup,
+  );
+  jest
+    .spyOn(permissionService, 'getUserPermissions')
+    .mockImplementation((userId) => Promise.resolve(granted[userId] ?? []));
+  const mfaService = {
+    isRequiredForRole: () => false,
+  } as unknown as MfaService;
+  const guard = new PermissionsGuard(
+    new Reflector(),
+    permissionService,
+    mfaService,
+  );
+
+  const contextFor = (handler: keyof TestController, user: AuthenticatedUser) =>
+    ({
+      getHandler: () => TestController.prototype[handler],
+      getClass: () => TestController,
+      switchToHttp: () => ({ getRequest: () => ({ user }) }),
+    }) as unknown as ExecutionContext;
+
+  const user = {
+    userId: 'user-1',
+    email: 'u@example.com',
+    role: UserRole.USER,
+  };
+  const admin = {
+    userId: 'admin-1',
+    email: 'a@example.com',
+    role: UserRole.ADMIN,
+  };
+
+  it('lets anyone through a route that declares no permissions', async () => {
+    await expect(guard.canActivate(contextFor('open', user))).resolves.toBe(
+      true,
+    );
+  });
+
+  it('checks the declared permissions, wildcards included', async () => {
+    await expect(
+      guard.canActivate(contextFor('listUsers', user)),
+    ).resolves.toBe(false);
+    await expect(
+      guard.canActivate(contextFor('listUsers', admin)),
+    ).resolves.toBe(true);
+  });
+
+  it('only accepts OAuth client tokens where a route allows them', async () => {
+    const clientToken = { ...admin, clientId: 'client-1', scope: 'openid' };
+
+    await expect(
+      guard.canActivate(contextFor('listUsers', clientToken)),
+    ).rejects.toThrow(ForbiddenException);
+    await expect(
+      guard.canActivate(contextFor('userInfo', clientToken)),
+    ).resolves.toBe(true);
+  });
+
+  describe('with an API key', () => {
+    const key = (scope: string) => ({
+      ...admin,
+      apiKeyId: 'key-1',
+      scope,
+    });
+
+    it('rejects a key whose scopes do not cover the route', async () => {
+      await expect(
+        guard.canActivate(contextFor('listUsers', key('profile:read'))),
+      ).resolves.toBe(false);
+      await expect(
+        guard.canActivate(contextFor('listUsers', key('users:read'))),
+      ).resolves.toBe(true);
+    });
+
+    it('refuses routes that declare no permissions', async () => {
+      await expect(
+        guard.canActivate(contextFor('open', key('*'))),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('refuses interactive-only routes whatever the scopes', async () => {
+      await expect(
+        guard.canActivate(contextFor('changePassword', key('*'))),
+      ).rejects.toThrow(ForbiddenException);
+      await expect(
+        guard.canActivate(contextFor('changePassword', admin)),
+      ).resolves.toBe(true);
+    });
+  });
+});
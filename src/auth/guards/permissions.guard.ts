@@ -0,0 +1,91 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { INTERACTIVE_ONLY_KEY } from 'src/common/decorators/interactive-only.decorator';
+import { OAUTH_CLIENT_ACCESS_KEY } from 'src/common/decorators/oauth-client-access.decorator';
+import { PERMISSIONS_KEY } from 'src/common/decorators/permissions.decorator';
+import { AuthenticatedUser } from 'src/common/decorators/user.decorator';
+import { MfaService } from '../services/mfa/mfa.service';
+import { PermissionService } from '../services/permission/permission.service';
+
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private permissionService: PermissionService,
+    private mfaService: MfaService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const requiredPermissions = this.reflector.getAllAndOverride<string[]>(
+      PERMISSIONS_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    const request = context
+      .switchToHttp()
+      .getRequest<{ user?: AuthenticatedUser }>();
+    const user = request.user;
+
+    if (user?.clientId) {
+      const clientAccess = this.reflector.getAllAndOverride<boolean>(
+        OAUTH_CLIENT_ACCESS_KEY,
+        [context.getHandler(), context.getClass()],
+      );
+      if (!clientAccess) {
+        throw new ForbiddenException(
+          'This route cannot be used with an OAuth client token',
+        );
+      }
+    }
+
+    // an API key only reaches routes that declare what they need, so its
+    // scopes always apply; credential and MFA routes refuse keys outright
+    if (user?.apiKeyId) {
+      const interactiveOnly = this.reflector.getAllAndOverride<boolean>(
+        INTERACTIVE_ONLY_KEY,
+        [context.getHandler(), context.getClass()],
+      );
+      if (interactiveOnly || !requiredPermissions) {
+        throw new ForbiddenException(
+          'This route cannot be used with an API key',
+        );
+      }
+    }
+
+    // If no permissions required, allow access
+    if (!requiredPermissions) {
+      return true;
+    }
+
+    if (!user) {
+      return false;
+    }
+
+    const granted = await this.permissionService.getUserPermissions(
+      user.userId,
+    );
+    if (!this.permissionService.hasPermissions(granted, requiredPermissions)) {
+      return false;
+    }
+
+    // an API key only carries the permissions it was created with
+    const keyScopes = user.apiKeyId ? (user.scope ?? '').split(' ') : null;
+    if (
+      keyScopes &&
+      !this.permissionService.hasPermissions(keyScopes, requiredPermissions)
+    ) {
+      return false;
+    }
+
+    // same rule as RolesGuard for roles that only act from MFA sessions
+    if (this.mfaService.isRequiredForRole(user.role) && !user.mfa) {
+      throw new ForbiddenException('MFA is required for this role');
+    }
+
+    return true;
+  }
+}
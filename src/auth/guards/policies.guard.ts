@@ -0,0 +1,75 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Type,
+} from '@nestjs/common';
+import { ModuleRef, Reflector } from '@nestjs/core';
+import {
+  CHECK_POLICIES_KEY,
+  PolicyRule,
+} from 'src/common/decorators/check-policies.decorator';
+import { Ability } from '../policies/ability';
+import { AbilityFactory } from '../policies/ability.factory';
+import {
+  PolicyHandler,
+  PolicyRequest,
+} from '../policies/policy-handler.interface';
+
+@Injectable()
+export class PoliciesGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private moduleRef: ModuleRef,
+    private abilityFactory: AbilityFactory,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const policies = this.reflector.getAllAndOverride<PolicyRule[]>(
+      CHECK_POLICIES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    // If no policies declared, allow access
+    if (!policies) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<PolicyRequest>();
+    if (!request.user) {
+      throw new ForbiddenException();
+    }
+
+    const ability = await this.abilityFactory.createForUser(request.user);
+    for (const policy of policies) {
+      if (!(await this.runPolicy(policy, ability, request))) {
+        throw new ForbiddenException(
+          'You are not allowed to perform this action',
+        );
+      }
+    }
+
+    return true;
+  }
+
+  private runPolicy(
+    policy: PolicyRule,
+    ability: Ability,
+    request: PolicyRequest,
+  ) {
+    // classes have a prototype with handle(); arrow callbacks have none
+    if (this.isHandlerClass(policy)) {
+      const handler = this.moduleRef.get(policy, { strict: false });
+      return handler.handle(ability, request);
+    }
+    return policy(ability, request);
+  }
+
+  private isHandlerClass(policy: PolicyRule): policy is Type<PolicyHandler> {
+    return (
+      typeof (policy.prototype as PolicyHandler | undefined)?.handle ===
+      'function'
+    );
+  }
+}
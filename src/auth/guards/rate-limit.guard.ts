@@ -0,0 +1,73 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request, Response } from 'express';
+import {
+  RATE_LIMIT_KEY,
+  RateLimitOptions,
+} from 'src/common/decorators/rate-limit.decorator';
+import { AuthenticatedUser } from 'src/common/decorators/user.decorator';
+import { TooManyRequestsException } from 'src/common/exceptions/too-many-requests.exception';
+import { RateLimitService } from 'src/common/services/rate-limit.service';
+
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private rateLimitService: RateLimitService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const options = this.reflector.getAllAndOverride<RateLimitOptions>(
+      RATE_LIMIT_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    // If no limit configured, allow access
+    if (!options) {
+      return true;
+    }
+
+    const http = context.switchToHttp();
+    const request = http.getRequest<Request & { user?: AuthenticatedUser }>();
+    const response = http.getResponse<Response>();
+
+    const name =
+      options.name ?? `${context.getClass().name}.${context.getHandler().name}`;
+    const result = await this.rateLimitService.consume(
+      `${name}:${this.resolveIdentity(options, request)}`,
+      options.points,
+      options.duration,
+    );
+
+    response.setHeader('X-RateLimit-Limit', String(result.limit));
+    response.setHeader('X-RateLimit-Remaining', String(result.remaining));
+    response.setHeader(
+      'X-RateLimit-Reset',
+      String(Math.ceil(result.resetAt / 1000)),
+    );
+
+    if (!result.allowed) {
+      throw new TooManyRequestsException(
+        Math.ceil((result.resetAt - Date.now()) / 1000),
+      );
+    }
+
+    return true;
+  }
+
+  private resolveIdentity(
+    options: RateLimitOptions,
+    request: Request & { user?: AuthenticatedUser },
+  ): string {
+    if (typeof options.key === 'function') {
+      return `custom:${options.key(request)}`;
+    }
+
+    // runs after JwtAuthGuard, so request.user is set for authenticated calls
+    if (options.key !== 'ip' && request.user) {
+      return `user:${request.user.userId}`;
+    }
+
+    return `ip:${request.ip}`;
+  }
+}
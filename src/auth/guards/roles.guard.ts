@@ -1,11 +1,21 @@
-import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { UserRole } from '@prisma/client';
 import { ROLES_KEY } from 'src/common/decorators/role.decorator';
+import { AuthenticatedUser } from 'src/common/decorators/user.decorator';
+import { MfaService } from '../services/mfa/mfa.service';
 
 @Injectable()
 export class RolesGuard implements CanActivate {
-  constructor(private reflector: Reflector) {}
+  constructor(
+    private reflector: Reflector,
+    private mfaService: MfaService,
+  ) {}
 
   canActivate(context: ExecutionContext): boolean {
     const requiredRoles = this.reflector.getAllAndOverride<UserRole[]>(
@@ -19,7 +29,9 @@ export class RolesGuard implements CanActivate {
     }
 
     // Extract user from request
-    const request = context.switchToHttp().getRequest();
+    const request = context
+      .switchToHttp()
+      .getRequest<{ user?: AuthenticatedUser }>();
     const user = request.user;
 
     // if no user, deny access
@@ -28,6 +40,16 @@ export class RolesGuard implements CanActivate {
     }
 
     // Check if user's role matches any required role (enum comparison)
-    return requiredRoles.some((role) => user.role === role);
+    const hasRole = requiredRoles.some((role) => user.role === role);
+    if (!hasRole) {
+      return false;
+    }
+
+    // privileged roles may be configured to only act from MFA sessions
+    if (this.mfaService.isRequiredForRole(user.role) && !user.mfa) {
+      throw new ForbiddenException('MFA is required for this role');
+    }
+
+    return true;
   }
 }
@@ -0,0 +1,57 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  SerializeOptions,
+} from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { Public } from 'src/common/decorators/public.decorator';
+import { RateLimit } from 'src/common/decorators/rate-limit.decorator';
+import { RequirePermissions } from 'src/common/decorators/permissions.decorator';
+import type { AuthenticatedUser } from 'src/common/decorators/user.decorator';
+import { User } from 'src/common/decorators/user.decorator';
+import { SerializationGroup } from 'src/common/interceptors/serializer.interceptor';
+import { UserEntity } from 'src/user/entities/user.entity';
+import { AcceptInvitationDto } from './dto/accept-invitation.dto';
+import { CreateInvitationDto } from './dto/create-invitation.dto';
+import { InvitationService } from './services/invitation/invitation.service';
+
+@Controller('invitations')
+export class InvitationController {
+  constructor(private invitationService: InvitationService) {}
+
+  @Post()
+  @RequirePermissions('users:invite')
+  @HttpCode(HttpStatus.CREATED)
+  async create(
+    @Body() createInvitationDto: CreateInvitationDto,
+    @User() admin: AuthenticatedUser,
+  ) {
+    const invitation = await this.invitationService.invite(
+      createInvitationDto.email,
+      createInvitationDto.role ?? UserRole.USER,
+      admin.userId,
+    );
+    return {
+      id: invitation.id,
+      email: invitation.email,
+      role: invitation.role,
+      expiresAt: invitation.expiresAt,
+    };
+  }
+
+  @Public()
+  @RateLimit({ points: 10, duration: 900, key: 'ip' })
+  @Post('accept')
+  @SerializeOptions({ groups: [SerializationGroup.SELF] })
+  @HttpCode(HttpStatus.CREATED)
+  async accept(
+    @Body() acceptInvitationDto: AcceptInvitationDto,
+  ): Promise<UserEntity> {
+    return new UserEntity(
+      await this.invitationService.accept(acceptInvitationDto),
+    );
+  }
+}
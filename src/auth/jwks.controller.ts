@@ -0,0 +1,27 @@
+import { Controller, Get, Header } from '@nestjs/common';
+import { Public } from 'src/common/decorators/public.decorator';
+import { JwtKeyService } from './services/jwt/jwt-key.service';
+import { OAuthServerService } from './services/oauth-server/oauth-server.service';
+
+// lets other services verify access tokens without holding a secret
+@Controller('.well-known')
+export class JwksController {
+  constructor(
+    private jwtKeyService: JwtKeyService,
+    private oauthServerService: OAuthServerService,
+  ) {}
+
+  @Public()
+  @Get('jwks.json')
+  @Header('Cache-Control', 'public, max-age=300')
+  getJwks() {
+    return this.jwtKeyService.getJwks();
+  }
+
+  @Public()
+  @Get('openid-configuration')
+  @Header('Cache-Control', 'public, max-age=300')
+  getOpenIdConfiguration() {
+    return this.oauthServerService.getDiscoveryDocument();
+  }
+}
@@ -0,0 +1,65 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  SerializeOptions,
+} from '@nestjs/common';
+import { InteractiveOnly } from 'src/common/decorators/interactive-only.decorator';
+import { Public } from 'src/common/decorators/public.decorator';
+import { SerializationGroup } from 'src/common/interceptors/serializer.interceptor';
+import { RateLimit } from 'src/common/decorators/rate-limit.decorator';
+import type { AuthenticatedUser } from 'src/common/decorators/user.decorator';
+import { User } from 'src/common/decorators/user.decorator';
+import { MfaCodeDto } from './dto/mfa-code.dto';
+import { MfaVerifyDto } from './dto/mfa-verify.dto';
+import { MfaService } from './services/mfa/mfa.service';
+
+@Controller('auth/mfa')
+@InteractiveOnly()
+export class MfaController {
+  constructor(private mfaService: MfaService) {}
+
+  @Post('enroll')
+  @HttpCode(HttpStatus.OK)
+  enroll(@User() user: AuthenticatedUser) {
+    return this.mfaService.enroll(user.userId);
+  }
+
+  @RateLimit({ points: 10, duration: 300 })
+  @Post('confirm')
+  @HttpCode(HttpStatus.OK)
+  async confirm(
+    @User() user: AuthenticatedUser,
+    @Body() mfaCodeDto: MfaCodeDto,
+  ) {
+    const recoveryCodes = await this.mfaService.confirm(
+      user.userId,
+      mfaCodeDto.code,
+    );
+    return { recoveryCodes };
+  }
+
+  @RateLimit({ points: 10, duration: 300 })
+  @Post('disable')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async disable(
+    @User() user: AuthenticatedUser,
+    @Body() mfaCodeDto: MfaCodeDto,
+  ) {
+    await this.mfaService.disable(user.userId, mfaCodeDto.code);
+  }
+
+  @Public()
+  @RateLimit({ points: 10, duration: 300, key: 'ip' })
+  @Post('verify')
+  @SerializeOptions({ groups: [SerializationGroup.SELF] })
+  @HttpCode(HttpStatus.OK)
+  verify(@Body() mfaVerifyDto: MfaVerifyDto) {
+    return this.mfaService.verifyChallenge(
+      mfaVerifyDto.challengeToken,
+      mfaVerifyDto.code,
+    );
+  }
+}
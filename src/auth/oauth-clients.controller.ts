@@ -0,0 +1,47 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+} from '@nestjs/common';
+import { RequirePermissions } from 'src/common/decorators/permissions.decorator';
+import type { AuthenticatedUser } from 'src/common/decorators/user.decorator';
+import { User } from 'src/common/decorators/user.decorator';
+import { CreateOAuthClientDto } from './dto/create-oauth-client.dto';
+import { OAuthClientService } from './services/oauth-server/oauth-client.service';
+
+@Controller('admin/oauth/clients')
+@RequirePermissions('clients:manage')
+export class OAuthClientsController {
+  constructor(private oauthClientService: OAuthClientService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  create(
+    @Body() createOAuthClientDto: CreateOAuthClientDto,
+    @User() admin: AuthenticatedUser,
+  ) {
+    return this.oauthClientService.create(createOAuthClientDto, admin.userId);
+  }
+
+  @Get()
+  findAll() {
+    return this.oauthClientService.findAll();
+  }
+
+  @Post(':clientId/secret')
+  @HttpCode(HttpStatus.OK)
+  rotateSecret(@Param('clientId') clientId: string) {
+    return this.oauthClientService.rotateSecret(clientId);
+  }
+
+  @Delete(':clientId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(@Param('clientId') clientId: string) {
+    await this.oauthClientService.remove(clientId);
+  }
+}
@@ -0,0 +1,89 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Header,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Ip,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { OAuthClientAccess } from 'src/common/decorators/oauth-client-access.decorator';
+import { Public } from 'src/common/decorators/public.decorator';
+import { RateLimit } from 'src/common/decorators/rate-limit.decorator';
+import type { AuthenticatedUser } from 'src/common/decorators/user.decorator';
+import { User } from 'src/common/decorators/user.decorator';
+import { AuthorizeDecisionDto } from './dto/authorize-decision.dto';
+import { AuthorizeRequestDto } from './dto/authorize-request.dto';
+import { TokenRequestDto } from './dto/token-request.dto';
+import {
+  ClientCredentials,
+  OAuthServerService,
+} from './services/oauth-server/oauth-server.service';
+
+// endpoints for internal apps signing users in through this service
+@Controller('oauth')
+export class OAuthServerController {
+  constructor(private oauthServerService: OAuthServerService) {}
+
+  // called by the consent screen with the client's query string
+  @Get('authorize')
+  authorize(
+    @Query() authorizeRequestDto: AuthorizeRequestDto,
+    @User() user: AuthenticatedUser,
+  ) {
+    return this.oauthServerService.authorize(user.userId, authorizeRequestDto);
+  }
+
+  @Post('authorize')
+  @HttpCode(HttpStatus.OK)
+  decide(
+    @Body() { approve, ...request }: AuthorizeDecisionDto,
+    @User() user: AuthenticatedUser,
+  ) {
+    return this.oauthServerService.decide(user.userId, request, approve);
+  }
+
+  @Public()
+  @RateLimit({ points: 60, duration: 60, key: 'ip' })
+  @Post('token')
+  @HttpCode(HttpStatus.OK)
+  @Header('Cache-Control', 'no-store')
+  token(
+    @Body() tokenRequestDto: TokenRequestDto,
+    @Ip() ip: string,
+    @Headers('authorization') authorization?: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.oauthServerService.token(
+      tokenRequestDto,
+      this.parseBasicAuth(authorization),
+      { ip, userAgent },
+    );
+  }
+
+  @Get('userinfo')
+  @OAuthClientAccess()
+  userInfo(@User() user: AuthenticatedUser) {
+    return this.oauthServerService.userInfo(user);
+  }
+
+  // client_secret_basic: both parts are form-urlencoded before base64
+  private parseBasicAuth(authorization?: string): ClientCredentials {
+    const [scheme, encoded] = authorization?.split(' ') ?? [];
+    if (scheme?.toLowerCase() !== 'basic' || !encoded) {
+      return {};
+    }
+    const decoded = Buffer.from(encoded, 'base64').toString('utf8');
+    const separator = decoded.indexOf(':');
+    if (separator < 0) {
+      return {};
+    }
+    return {
+      clientId: decodeURIComponent(decoded.slice(0, separator)),
+      clientSecret: decodeURIComponent(decoded.slice(separator + 1)),
+    };
+  }
+}
@@ -0,0 +1,139 @@
+import {
+  BadRequestException,
+  Controller,
+  Delete,
+  Get,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Ip,
+  Param,
+  Post,
+  Query,
+  Res,
+  SerializeOptions,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { InteractiveOnly } from 'src/common/decorators/interactive-only.decorator';
+import { RequirePermissions } from 'src/common/decorators/permissions.decorator';
+import { Public } from 'src/common/decorators/public.decorator';
+import { RateLimit } from 'src/common/decorators/rate-limit.decorator';
+import type { AuthenticatedUser } from 'src/common/decorators/user.decorator';
+import { User } from 'src/common/decorators/user.decorator';
+import { SerializationGroup } from 'src/common/interceptors/serializer.interceptor';
+import {
+  OAUTH_BINDING_COOKIE,
+  OAuthService,
+} from './services/oauth/oauth.service';
+
+@Controller('auth/oauth')
+export class OAuthController {
+  constructor(private oauthService: OAuthService) {}
+
+  @Public()
+  @Get('providers')
+  getProviders() {
+    return { providers: this.oauthService.getProviderNames() };
+  }
+
+  // sends the browser to the provider's consent page
+  @Public()
+  @RateLimit({ points: 30, duration: 60, key: 'ip' })
+  @Get(':provider/authorize')
+  async authorize(
+    @Param('provider') provider: string,
+    @Res() response: Response,
+  ) {
+    const { url, binding } =
+      await this.oauthService.startAuthorization(provider);
+    response.cookie(
+      OAUTH_BINDING_COOKIE,
+      binding,
+      this.oauthService.getBindingCookieOptions(),
+    );
+    response.redirect(url);
+  }
+
+  // query params are read one by one: providers add extras such as `scope`
+  @Public()
+  @RateLimit({ points: 30, duration: 60, key: 'ip' })
+  @Get(':provider/callback')
+  @SerializeOptions({ groups: [SerializationGroup.SELF] })
+  callback(
+    @Param('provider') provider: string,
+    @Query('code') code: string | undefined,
+    @Query('state') state: string | undefined,
+    @Query('error') error: string | undefined,
+    @Ip() ip: string,
+    @Res({ passthrough: true }) response: Response,
+    @Headers('cookie') cookie?: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    if (error || !code || !state) {
+      throw new BadRequestException(
+        error ? `OAuth provider returned ${error}` : 'Missing code or state',
+      );
+    }
+    const { path } = this.oauthService.getBindingCookieOptions();
+    response.clearCookie(OAUTH_BINDING_COOKIE, { path });
+    return this.oauthService.handleCallback(
+      provider,
+      code,
+      state,
+      this.readCookie(cookie, OAUTH_BINDING_COOKIE),
+      { ip, userAgent },
+    );
+  }
+
+  // returns the URL to open; the callback then links instead of logging in.
+  // The binding cookie ties the link to this browser, so call it with
+  // credentials from the same site as the callback
+  @Post(':provider/link')
+  @InteractiveOnly()
+  @RequirePermissions('profile:write')
+  @HttpCode(HttpStatus.OK)
+  async link(
+    @Param('provider') provider: string,
+    @User() user: AuthenticatedUser,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    const { url, binding } = await this.oauthService.startAuthorization(
+      provider,
+      user.userId,
+    );
+    response.cookie(
+      OAUTH_BINDING_COOKIE,
+      binding,
+      this.oauthService.getBindingCookieOptions(),
+    );
+    return { url };
+  }
+
+  @Get('identities')
+  @RequirePermissions('profile:read')
+  listIdentities(@User() user: AuthenticatedUser) {
+    return this.oauthService.listIdentities(user.userId);
+  }
+
+  @Delete('identities/:provider')
+  @InteractiveOnly()
+  @RequirePermissions('profile:write')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async unlink(
+    @Param('provider') provider: string,
+    @User() user: AuthenticatedUser,
+  ) {
+    await this.oauthService.unlink(user.userId, provider);
+  }
+
+  // no cookie parser is installed, and this is the only cookie we read
+  private readCookie(header: string | undefined, name: string) {
+    for (const part of header?.split(';') ?? []) {
+      const separator = part.indexOf('=');
+      if (separator > 0 && part.slice(0, separator).trim() === name) {
+        return decodeURIComponent(part.slice(separator + 1).trim());
+      }
+    }
+    return undefined;
+  }
+}
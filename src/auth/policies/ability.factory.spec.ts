@@ -0,0 +1,89 @@
+import { PrismaService } from 'prisma/prisma.service';
+import { RedisService } from 'src/common/services/redis.service';
+import tokensConfig from 'src/config/tokens.config';
+import { BASELINE_ROLES } from '../services/permission/baseline-roles';
+import { PermissionService } from '../services/permission/permission.service';
+import type { UserLookup } from '../user-lookup/user-lookup.interface';
+import { AbilityFactory } from './ability.factory';
+
+describe('AbilityFactory', () => {
+  // primary role first, then the ones assigned through the roles endpoints
+  const userRoles: Record<string, string[]> = {
+    'user-2': ['USER'],
+    'manager-1': ['MANAGER'],
+    'admin-1': ['ADMIN'],
+    'promoted-1': ['USER', 'MANAGER'],
+  };
+  const prisma = {
+    role: {
+      findMany: () =>
+        Promise.resolve(
+          Object.entries(BASELINE_ROLES).map(([name, role]) => ({
+            name,
+            inherits: role.inherits.map((parent) => ({ name: parent })),
+            permissions: role.permissions.map((permission) => ({
+              name: permission,
+            })),
+          })),
+        ),
+    },
+  } as unknown as PrismaService;
+  const redis = {
+    get: () => Promise.resolve(null),
+    set: () => Promise.resolve(),
+  } as unknown as RedisService;
+  const userLookup = {
+    findRoles: (id: string) => Promise.resolve(userRoles[id] ?? null),
+  } as unknown as UserLookup;
+  const factory = new AbilityFactory(
+    new PermissionService(prisma, redis, tokensConfig(), userLookup),
+  );
+  const regular = { id: 'user-2', staff: false };
+  const admin = { id: 'admin-1', staff: true };
+
+  const abilityOf = (userId: string, scope?: string) =>
+    factory.createForUser({
+      userId,
+      email: `${userId}@example.com`,
+      ...(scope && { apiKeyId: 'key-1', scope }),
+    });
+
+  it('lets users edit their own profile but not their role', async () => {
+    const ability = await abilityOf('user-2');
+
+    expect(ability.can('update', 'User', regular, 'name')).toBe(true);
+    expect(ability.can('update', 'User', regular, 'role')).toBe(false);
+    expect(ability.can('update', 'User', admin, 'name')).toBe(false);
+  });
+
+  it('lets managers deactivate users but not admins', async () => {
+    const ability = await abilityOf('manager-1');
+
+    expect(ability.can('update', 'User', regular, 'isActive')).toBe(true);
+    expect(ability.can('update', 'User', admin, 'isActive')).toBe(false);
+    expect(ability.can('update', 'User', regular, 'role')).toBe(false);
+  });
+
+  it('counts roles assigned on top of the primary role', async () => {
+    const ability = await abilityOf('promoted-1');
+
+    expect(ability.can('read', 'User', admin)).toBe(true);
+    expect(ability.can('update', 'User', regular, 'isActive')).toBe(true);
+    expect(ability.can('read', 'AuditEvent')).toBe(true);
+  });
+
+  it('lets admins do anything', async () => {
+    const ability = await abilityOf('admin-1');
+
+    expect(ability.can('update', 'User', regular, 'role')).toBe(true);
+    expect(ability.can('delete', 'User', admin)).toBe(true);
+  });
+
+  it('limits an API key to its scopes', async () => {
+    const ability = await abilityOf('admin-1', 'profile:read users:read');
+
+    expect(ability.can('read', 'User', regular)).toBe(true);
+    expect(ability.can('update', 'User', regular, 'name')).toBe(false);
+    expect(ability.can('update', 'User', regular, 'role')).toBe(false);
+  });
+});
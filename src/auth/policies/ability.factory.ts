@@ -0,0 +1,63 @@
+import { Injectable } from '@nestjs/common';
+import { AuthenticatedUser } from 'src/common/decorators/user.decorator';
+import { PermissionService } from '../services/permission/permission.service';
+import { Ability, AbilityBuilder } from './ability';
+
+// fields a user may change on their own account
+const SELF_EDITABLE_FIELDS = ['email', 'name', 'password'];
+
+@Injectable()
+export class AbilityFactory {
+  constructor(private permissionService: PermissionService) {}
+
+  /**
+   * Build the abilities of a user from the permissions of all their roles,
+   * limited to the scopes of the API key they came in with
+   */
+  async createForUser(user: AuthenticatedUser): Promise<Ability> {
+    const granted = await this.permissionService.getUserPermissions(
+      user.userId,
+    );
+    const keyScopes = user.apiKeyId ? (user.scope ?? '').split(' ') : null;
+    const has = (permission: string) =>
+      this.permissionService.hasPermissions(granted, [permission]) &&
+      (!keyScopes ||
+        this.permissionService.hasPermissions(keyScopes, [permission]));
+
+    const builder = new AbilityBuilder();
+
+    if (has('*')) {
+      return builder.can('manage', 'all').build();
+    }
+
+    if (has('profile:read')) {
+      builder.can('read', 'User', undefined, { id: user.userId });
+    }
+    if (has('profile:write')) {
+      builder.can('update', 'User', SELF_EDITABLE_FIELDS, { id: user.userId });
+    }
+
+    if (has('users:read')) {
+      builder.can('read', 'User');
+    }
+    // managers may (de)activate regular users, never staff accounts
+    if (has('users:activate')) {
+      builder.can('update', 'User', ['isActive'], { staff: false });
+    }
+    if (has('users:write')) {
+      builder.can('update', 'User').cannot('update', 'User', ['role']);
+    }
+    if (has('roles:assign')) {
+      builder.can('update', 'User', ['role']);
+    }
+    if (has('users:delete')) {
+      builder.can('delete', 'User');
+    }
+
+    if (has('audit:read')) {
+      builder.can('read', 'AuditEvent');
+    }
+
+    return builder.build();
+  }
+}
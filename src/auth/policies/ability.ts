@@ -0,0 +1,101 @@
+export type Action = 'manage' | 'create' | 'read' | 'update' | 'delete';
+// 'all' matches every subject
+export type Subject = 'User' | 'AuditEvent' | 'all';
+
+type Conditions = Record<string, unknown>;
+
+interface Rule {
+  action: Action;
+  subject: Subject;
+  // fields the rule is limited to; every field when omitted
+  fields?: string[];
+  // the resource must match every key for the rule to apply
+  conditions?: Conditions;
+  inverted: boolean;
+}
+
+/**
+ * Answers "may the user do X to Y", in the style of CASL. Later rules take
+ * precedence over earlier ones, so `cannot` rules are added after the `can`
+ * rules they restrict.
+ */
+export class Ability {
+  constructor(private readonly rules: Rule[]) {}
+
+  /**
+   * @param resource - Loaded record to check conditions against; when omitted
+   * any rule for the subject counts, whatever its conditions
+   * @param field - Single field being read or written
+   */
+  can(
+    action: Exclude<Action, 'manage'>,
+    subject: Exclude<Subject, 'all'>,
+    resource?: object,
+    field?: string,
+  ): boolean {
+    for (let i = this.rules.length - 1; i >= 0; i--) {
+      const rule = this.rules[i];
+      if (this.matches(rule, action, subject, resource, field)) {
+        return !rule.inverted;
+      }
+    }
+    return false;
+  }
+
+  cannot(...args: Parameters<Ability['can']>): boolean {
+    return !this.can(...args);
+  }
+
+  private matches(
+    rule: Rule,
+    action: Action,
+    subject: Subject,
+    resource?: object,
+    field?: string,
+  ): boolean {
+    if (rule.action !== 'manage' && rule.action !== action) {
+      return false;
+    }
+    if (rule.subject !== 'all' && rule.subject !== subject) {
+      return false;
+    }
+    if (field && rule.fields && !rule.fields.includes(field)) {
+      return false;
+    }
+    if (resource && rule.conditions) {
+      const values = resource as Record<string, unknown>;
+      return Object.entries(rule.conditions).every(
+        ([key, value]) => values[key] === value,
+      );
+    }
+    return true;
+  }
+}
+
+export class AbilityBuilder {
+  private readonly rules: Rule[] = [];
+
+  can(
+    action: Action,
+    subject: Subject,
+    fields?: string[],
+    conditions?: Conditions,
+  ): this {
+    this.rules.push({ action, subject, fields, conditions, inverted: false });
+    return this;
+  }
+
+  cannot(
+    action: Action,
+    subject: Subject,
+    fields?: string[],
+    conditions?: Conditions,
+  ): this {
+    this.rules.push({ action, subject, fields, conditions, inverted: true });
+    return this;
+  }
+
+  build(): Ability {
+    return new Ability([...this.rules]);
+  }
+}
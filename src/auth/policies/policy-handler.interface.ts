@@ -0,0 +1,16 @@
+import type { Request } from 'express';
+import { AuthenticatedUser } from 'src/common/decorators/user.decorator';
+import { Ability } from './ability';
+
+export type PolicyRequest = Request & { user: AuthenticatedUser };
+
+// class-based handlers are resolved from the container, so they can inject
+// services to load the resource being acted on
+export interface PolicyHandler {
+  handle(ability: Ability, request: PolicyRequest): boolean | Promise<boolean>;
+}
+
+export type PolicyHandlerCallback = (
+  ability: Ability,
+  request: PolicyRequest,
+) => boolean | Promise<boolean>;
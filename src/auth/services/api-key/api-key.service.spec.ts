@@ -0,0 +1,110 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from 'prisma/prisma.service';
+import { AuditService } from 'src/audit/audit.service';
+import { USER_LOOKUP } from '../../user-lookup/user-lookup.interface';
+import { PermissionService } from '../permission/permission.service';
+import { ApiKeyService } from './api-key.service';
+
+describe('ApiKeyService', () => {
+  let service: ApiKeyService;
+  let stored: Record<string, any> | null;
+  let prisma: {
+    apiKey: { create: jest.Mock; findUnique: jest.Mock; update: jest.Mock };
+  };
+
+  const owner = {
+    id: 'user-1',
+    email: 'ci@example.com',
+    name: 'CI',
+    role: 'USER',
+    isActive: true,
+  };
+
+  beforeEach(async () => {
+    stored = null;
+    prisma = {
+      apiKey: {
+        create: jest.fn(({ data }: { data: Record<string, unknown> }) => {
+          stored = {
+            id: 'key-1',
+            ...data,
+            revokedAt: null,
+            lastUsedAt: null,
+          };
+          return Promise.resolve(stored);
+        }),
+        findUnique: jest.fn(({ where }: { where: { prefix: string } }) =>
+          Promise.resolve(stored?.prefix === where.prefix ? stored : null),
+        ),
+        update: jest.fn(),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeyService,
+        PermissionService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: AuditService, useValue: { record: jest.fn() } },
+        {
+          provide: USER_LOOKUP,
+          useValue: { findById: () => Promise.resolve(owner) },
+        },
+      ],
+    })
+      .overrideProvider(PermissionService)
+      .useValue({
+        getUserPermissions: jest.fn().mockResolvedValue(['users:*']),
+        hasPermissions: (granted: string[], required: string[]) =>
+          required.every(
+            (permission) =>
+              granted.includes(permission) ||
+              granted.includes(`${permission.split(':')[0]}:*`),
+          ),
+      })
+      .compile();
+
+    service = module.get<ApiKeyService>(ApiKeyService);
+  });
+
+  it('resolves a new key to its owner with the key scopes', async () => {
+    const { key } = await service.create(owner.id, {
+      name: 'deploy',
+      scopes: ['users:read'],
+    });
+
+    // the secret is base64url, so it may itself contain underscores
+    const secret = key.replace(/^ak_[0-9a-f]{12}_/, '');
+    expect(stored?.keyHash).not.toContain(secret);
+    await expect(service.validate(key)).resolves.toMatchObject({
+      userId: owner.id,
+      role: 'USER',
+      mfa: false,
+      scope: 'users:read',
+      apiKeyId: 'key-1',
+    });
+  });
+
+  it('rejects scopes the owner does not hold', async () => {
+    await expect(
+      service.create(owner.id, { name: 'audit', scopes: ['audit:read'] }),
+    ).rejects.toThrow('audit:read');
+  });
+
+  it('rejects a wrong secret, a revoked key and an expired key', async () => {
+    const { key } = await service.create(owner.id, {
+      name: 'deploy',
+      scopes: [],
+    });
+    const [, prefix] = key.split('_');
+
+    await expect(service.validate(`ak_${prefix}_wrong`)).resolves.toBeNull();
+
+    stored!.expiresAt = new Date(Date.now() - 1000);
+    await expect(service.validate(key)).resolves.toBeNull();
+
+    stored!.expiresAt = null;
+    stored!.revokedAt = new Date();
+    await expect(service.validate(key)).resolves.toBeNull();
+  });
+});
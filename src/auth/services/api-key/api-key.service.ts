@@ -0,0 +1,189 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ApiKey, AuditAction } from '@prisma/client';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { PrismaService } from 'prisma/prisma.service';
+import { AuditService } from 'src/audit/audit.service';
+import type { AuthenticatedUser } from 'src/common/decorators/user.decorator';
+import { CreateApiKeyDto } from '../../dto/create-api-key.dto';
+import { PermissionService } from '../permission/permission.service';
+import { USER_LOOKUP } from '../../user-lookup/user-lookup.interface';
+import type { UserLookup } from '../../user-lookup/user-lookup.interface';
+
+// what the owner sees when listing keys; never the hash
+export type ApiKeyView = Pick<
+  ApiKey,
+  | 'id'
+  | 'name'
+  | 'prefix'
+  | 'scopes'
+  | 'expiresAt'
+  | 'lastUsedAt'
+  | 'revokedAt'
+  | 'createdAt'
+>;
+
+@Injectable()
+export class ApiKeyService {
+  // keys look like ak_<prefix>_<secret>
+  private readonly keyPrefix = 'ak_';
+  // lastUsedAt is only written when older than this, to spare a write per request
+  private readonly lastUsedResolution = 60_000;
+
+  constructor(
+    private prisma: PrismaService,
+    private permissionService: PermissionService,
+    private auditService: AuditService,
+    @Inject(USER_LOOKUP) private userLookup: UserLookup,
+  ) {}
+
+  private hashSecret(secret: string): string {
+    return createHash('sha256').update(secret).digest('hex');
+  }
+
+  private toView(apiKey: ApiKey): ApiKeyView {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes,
+      expiresAt: apiKey.expiresAt,
+      lastUsedAt: apiKey.lastUsedAt,
+      revokedAt: apiKey.revokedAt,
+      createdAt: apiKey.createdAt,
+    };
+  }
+
+  /**
+   * Create a key limited to the given permissions
+   * @returns The key record and the raw key, which is only ever returned here
+   */
+  async create(userId: string, dto: CreateApiKeyDto) {
+    const expiresAt = dto.expiresAt ? new Date(dto.expiresAt) : null;
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+
+    // a key can't be used to do more than its owner can
+    const granted = await this.permissionService.getUserPermissions(userId);
+    const missing = dto.scopes.filter(
+      (scope) => !this.permissionService.hasPermissions(granted, [scope]),
+    );
+    if (missing.length) {
+      throw new BadRequestException(
+        `You don't hold these permissions: ${missing.join(', ')}`,
+      );
+    }
+
+    const prefix = randomBytes(6).toString('hex');
+    const secret = randomBytes(32).toString('base64url');
+    const apiKey = await this.prisma.apiKey.create({
+      data: {
+        name: dto.name,
+        prefix,
+        keyHash: this.hashSecret(secret),
+        userId,
+        scopes: [...new Set(dto.scopes)],
+        expiresAt,
+      },
+    });
+
+    await this.auditService.record({
+      action: AuditAction.API_KEY_CREATED,
+      actorId: userId,
+      targetId: userId,
+      metadata: { apiKeyId: apiKey.id, name: apiKey.name },
+    });
+
+    return {
+      ...this.toView(apiKey),
+      key: `${this.keyPrefix}${prefix}_${secret}`,
+    };
+  }
+
+  async list(userId: string): Promise<ApiKeyView[]> {
+    const apiKeys = await this.prisma.apiKey.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+    return apiKeys.map((apiKey) => this.toView(apiKey));
+  }
+
+  async revoke(userId: string, id: string): Promise<void> {
+    const result = await this.prisma.apiKey.updateMany({
+      where: { id, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    if (result.count === 0) {
+      throw new NotFoundException(`API key with ID ${id} not found`);
+    }
+
+    await this.auditService.record({
+      action: AuditAction.API_KEY_REVOKED,
+      actorId: userId,
+      targetId: userId,
+      metadata: { apiKeyId: id },
+    });
+  }
+
+  /**
+   * Resolve a raw key to the user it acts for
+   * @returns The same shape JwtStrategy produces, or null for an unknown,
+   * revoked or expired key or an inactive owner
+   */
+  async validate(rawKey: string): Promise<AuthenticatedUser | null> {
+    const match = /^ak_([0-9a-f]{12})_([\w-]+)$/.exec(rawKey);
+    if (!match) {
+      return null;
+    }
+    const [, prefix, secret] = match;
+
+    const apiKey = await this.prisma.apiKey.findUnique({
+      where: { prefix },
+    });
+    if (!apiKey || !this.secretMatches(apiKey, secret)) {
+      return null;
+    }
+
+    const now = Date.now();
+    const live =
+      !apiKey.revokedAt &&
+      (!apiKey.expiresAt || apiKey.expiresAt.getTime() > now);
+    const user = live ? await this.userLookup.findById(apiKey.userId) : null;
+    if (!user || !user.isActive) {
+      return null;
+    }
+
+    if (
+      !apiKey.lastUsedAt ||
+      now - apiKey.lastUsedAt.getTime() > this.lastUsedResolution
+    ) {
+      await this.prisma.apiKey.update({
+        where: { id: apiKey.id },
+        data: { lastUsedAt: new Date(now) },
+      });
+    }
+
+    return {
+      userId: user.id,
+      email: user.email,
+      name: user.name ?? undefined,
+      role: user.role,
+      // a key never stands in for a second factor
+      mfa: false,
+      scope: apiKey.scopes.join(' '),
+      apiKeyId: apiKey.id,
+    };
+  }
+
+  private secretMatches(apiKey: ApiKey, secret: string): boolean {
+    return timingSafeEqual(
+      Buffer.from(this.hashSecret(secret)),
+      Buffer.from(apiKey.keyHash),
+    );
+  }
+}
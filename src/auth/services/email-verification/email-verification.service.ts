@@ -0,0 +1,75 @@
+import { Inject, Injectable } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { User, UserTokenType } from '@prisma/client';
+import { MailService } from 'src/common/services/mail.service';
+import tokensConfig from 'src/config/tokens.config';
+import { UserTokenService } from '../user-token/user-token.service';
+import { USER_LOOKUP } from '../../user-lookup/user-lookup.interface';
+import type { UserLookup } from '../../user-lookup/user-lookup.interface';
+
+@Injectable()
+export class EmailVerificationService {
+  private readonly ttl: number;
+  private readonly verificationUrl: string;
+  private readonly required: boolean;
+
+  constructor(
+    @Inject(USER_LOOKUP) private userLookup: UserLookup,
+    private userTokenService: UserTokenService,
+    private mailService: MailService,
+    @Inject(tokensConfig.KEY) tokens: ConfigType<typeof tokensConfig>,
+  ) {
+    this.ttl = tokens.emailVerification.ttl;
+    this.verificationUrl = tokens.emailVerification.url;
+    this.required = tokens.emailVerification.required;
+  }
+
+  // when enabled, unverified accounts can't log in
+  isVerificationRequired(): boolean {
+    return this.required;
+  }
+
+  async sendVerification(user: Pick<User, 'id' | 'email' | 'name'>) {
+    const token = await this.userTokenService.issue(
+      user.id,
+      UserTokenType.EMAIL_VERIFICATION,
+      this.ttl,
+    );
+    const link = `${this.verificationUrl}?token=${token}`;
+
+    await this.mailService.send({
+      to: user.email,
+      subject: 'Verify your email address',
+      text: [
+        `Hi ${user.name ?? user.email},`,
+        '',
+        'Please confirm your email address by opening the link below:',
+        link,
+        '',
+        `The link expires in ${Math.round(this.ttl / 3600)} hour(s).`,
+      ].join('\n'),
+    });
+  }
+
+  async verify(token: string): Promise<void> {
+    const userId = await this.userTokenService.consume(
+      token,
+      UserTokenType.EMAIL_VERIFICATION,
+    );
+
+    await this.userLookup.update(userId, {
+      emailVerified: true,
+      emailVerifiedAt: new Date(),
+    });
+  }
+
+  // silently ignores unknown or already verified addresses
+  async resend(email: string): Promise<void> {
+    const user = await this.userLookup.findByEmail(email);
+    if (!user || user.emailVerified) {
+      return;
+    }
+
+    await this.sendVerification(user);
+  }
+}
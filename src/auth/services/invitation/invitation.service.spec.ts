@@ -0,0 +1,173 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { Test, TestingModule } from '@nestjs/testing';
+import { AuditAction, Invitation, UserRole } from '@prisma/client';
+import { PrismaService } from 'prisma/prisma.service';
+import { AuditService } from 'src/audit/audit.service';
+import { MailService } from 'src/common/services/mail.service';
+import { PasswordService } from 'src/common/services/password.service';
+import jwtConfig from 'src/config/jwt.config';
+import tokensConfig from 'src/config/tokens.config';
+import { AUTH_MODULE_OPTIONS } from '../../auth.module-definition';
+import { USER_LOOKUP } from '../../user-lookup/user-lookup.interface';
+import { AuthJwtService } from '../jwt/jwt.service';
+import { JwtKeyService } from '../jwt/jwt-key.service';
+import { PasswordPolicyService } from '../password-policy/password-policy.service';
+import { TokenVersionService } from '../token-version/token-version.service';
+import { InvitationService } from './invitation.service';
+
+describe('InvitationService', () => {
+  let service: InvitationService;
+  let jwtService: AuthJwtService;
+  let invitations: Invitation[];
+  const userLookup = { findByEmail: jest.fn() };
+  const mailService = { send: jest.fn() };
+  const auditService = { record: jest.fn() };
+
+  // just enough of the invitation and user tables for invite and accept
+  const prisma = {
+    invitation: {
+      create: ({ data }: { data: Omit<Invitation, 'id' | 'acceptedAt'> }) => {
+        const invitation = {
+          ...data,
+          id: `invitation-${invitations.length + 1}`,
+          acceptedAt: null,
+        } as Invitation;
+        invitations.push(invitation);
+        return Promise.resolve(invitation);
+      },
+      updateMany: ({
+        where,
+        data,
+      }: {
+        where: { id: string; expiresAt: { gt: Date } };
+        data: { acceptedAt: Date };
+      }) => {
+        const open = invitations.filter(
+          (invitation) =>
+            invitation.id === where.id &&
+            !invitation.acceptedAt &&
+            invitation.expiresAt > where.expiresAt.gt,
+        );
+        open.forEach((invitation) => Object.assign(invitation, data));
+        return Promise.resolve({ count: open.length });
+      },
+      findUniqueOrThrow: ({ where }: { where: { id: string } }) =>
+        Promise.resolve(invitations.find(({ id }) => id === where.id)),
+    },
+    user: {
+      create: ({ data }: { data: object }) =>
+        Promise.resolve({ id: 'user-2', ...data }),
+    },
+    $transaction: (run: (tx: unknown) => Promise<unknown>) => run(prisma),
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    invitations = [];
+    userLookup.findByEmail.mockResolvedValue(null);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InvitationService,
+        AuthJwtService,
+        JwtKeyService,
+        JwtService,
+        {
+          provide: jwtConfig.KEY,
+          useValue: { algorithm: 'HS256', secret: 's'.repeat(32) },
+        },
+        { provide: tokensConfig.KEY, useValue: tokensConfig() },
+        { provide: AUTH_MODULE_OPTIONS, useValue: {} },
+        { provide: TokenVersionService, useValue: {} },
+        { provide: PrismaService, useValue: prisma },
+        { provide: USER_LOOKUP, useValue: userLookup },
+        { provide: MailService, useValue: mailService },
+        { provide: AuditService, useValue: auditService },
+        {
+          provide: PasswordService,
+          useValue: {
+            hashPassword: (password: string) =>
+              Promise.resolve(`hashed:${password}`),
+          },
+        },
+        { provide: PasswordPolicyService, useValue: { validate: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<InvitationService>(InvitationService);
+    jwtService = module.get<AuthJwtService>(AuthJwtService);
+  });
+
+  // the token only travels in the invitation mail
+  const inviteAndReadToken = async (role: UserRole) => {
+    await service.invite('new@example.com', role, 'admin-1');
+    const [[{ text }]] = mailService.send.mock.calls as [[{ text: string }]];
+    return new URL(text.split('\n')[4]).searchParams.get('token') as string;
+  };
+
+  it('creates the account with the role the admin chose', async () => {
+    const token = await inviteAndReadToken(UserRole.ADMIN);
+
+    const user = await service.accept({
+      token,
+      password: 'N3w-passphrase!',
+      name: 'New',
+    });
+
+    expect(user).toMatchObject({
+      email: 'new@example.com',
+      password: 'hashed:N3w-passphrase!',
+      name: 'New',
+      role: UserRole.ADMIN,
+      emailVerified: true,
+    });
+    expect(auditService.record).toHaveBeenLastCalledWith({
+      action: AuditAction.INVITATION_ACCEPTED,
+      actorId: 'user-2',
+      targetId: 'user-2',
+      metadata: { invitationId: 'invitation-1', role: UserRole.ADMIN },
+    });
+  });
+
+  it('can only be redeemed once', async () => {
+    const token = await inviteAndReadToken(UserRole.USER);
+    await service.accept({ token, password: 'N3w-passphrase!' });
+
+    await expect(
+      service.accept({ token, password: 'An0ther-passphrase!' }),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('refuses an invitation that has expired', async () => {
+    const token = await inviteAndReadToken(UserRole.USER);
+    invitations[0].expiresAt = new Date(Date.now() - 1000);
+
+    await expect(
+      service.accept({ token, password: 'N3w-passphrase!' }),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('refuses tokens that were not issued as an invitation', async () => {
+    await service.invite('new@example.com', UserRole.USER, 'admin-1');
+    // a token with the same claims, minted for another purpose
+    const forged = await jwtService.signPurposeToken(
+      { sub: 'invitation-1', email: 'new@example.com', role: UserRole.ADMIN },
+      'password-reset',
+      60,
+    );
+
+    await expect(
+      service.accept({ token: forged, password: 'N3w-passphrase!' }),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('does not invite an address that already has an account', async () => {
+    userLookup.findByEmail.mockResolvedValue({ id: 'user-1' });
+
+    await expect(
+      service.invite('new@example.com', UserRole.ADMIN, 'admin-1'),
+    ).rejects.toThrow(ConflictException);
+    expect(invitations).toHaveLength(0);
+  });
+});
@@ -0,0 +1,172 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+} from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { AuditAction, Invitation, User, UserRole } from '@prisma/client';
+import { PrismaService } from 'prisma/prisma.service';
+import { AuditService } from 'src/audit/audit.service';
+import { MailService } from 'src/common/services/mail.service';
+import { PasswordService } from 'src/common/services/password.service';
+import tokensConfig from 'src/config/tokens.config';
+import { AuthJwtService } from '../jwt/jwt.service';
+import { PasswordPolicyService } from '../password-policy/password-policy.service';
+import { USER_LOOKUP } from '../../user-lookup/user-lookup.interface';
+import type { UserLookup } from '../../user-lookup/user-lookup.interface';
+
+interface InvitationPayload {
+  sub: string;
+  email: string;
+  role: UserRole;
+}
+
+export interface AcceptInvitationInput {
+  token: string;
+  password: string;
+  name?: string;
+}
+
+@Injectable()
+export class InvitationService {
+  private readonly audience = 'invitation';
+  private readonly ttl: number;
+  private readonly invitationUrl: string;
+
+  constructor(
+    private prisma: PrismaService,
+    private jwtService: AuthJwtService,
+    private passwordService: PasswordService,
+    private mailService: MailService,
+    @Inject(tokensConfig.KEY) tokens: ConfigType<typeof tokensConfig>,
+    private auditService: AuditService,
+    private passwordPolicyService: PasswordPolicyService,
+    @Inject(USER_LOOKUP) private userLookup: UserLookup,
+  ) {
+    this.ttl = tokens.invitation.ttl;
+    this.invitationUrl = tokens.invitation.url;
+  }
+
+  /**
+   * Invite someone to sign up with a preset role
+   * @param invitedById - Admin sending the invitation
+   */
+  async invite(
+    email: string,
+    role: UserRole,
+    invitedById: string,
+  ): Promise<Invitation> {
+    const existing = await this.userLookup.findByEmail(email);
+    if (existing) {
+      throw new ConflictException('User with this email already exists');
+    }
+
+    const invitation = await this.prisma.invitation.create({
+      data: {
+        email,
+        role,
+        invitedById,
+        expiresAt: new Date(Date.now() + this.ttl * 1000),
+      },
+    });
+
+    const payload: InvitationPayload = { sub: invitation.id, email, role };
+    const token = await this.jwtService.signPurposeToken(
+      { ...payload },
+      this.audience,
+      this.ttl,
+    );
+
+    await this.mailService.send({
+      to: email,
+      subject: 'You have been invited',
+      text: [
+        'Hi,',
+        '',
+        'You have been invited to create an account.',
+        'Open the link below to choose a password:',
+        `${this.invitationUrl}?token=${token}`,
+        '',
+        `The link expires in ${Math.round(this.ttl / 3600)} hour(s).`,
+      ].join('\n'),
+    });
+
+    await this.auditService.record({
+      action: AuditAction.INVITATION_SENT,
+      actorId: invitedById,
+      metadata: { invitationId: invitation.id, email, role },
+    });
+
+    return invitation;
+  }
+
+  /**
+   * Create the invitee's account with the role chosen by the admin
+   * @throws BadRequestException for a bad, expired or already used token
+   */
+  async accept(input: AcceptInvitationInput): Promise<User> {
+    const payload = await this.jwtService.verifyPurposeToken<InvitationPayload>(
+      input.token,
+      this.audience,
+    );
+    if (!payload) {
+      throw new BadRequestException('Invalid or expired invitation');
+    }
+
+    const existing = await this.userLookup.findByEmail(payload.email);
+    if (existing) {
+      throw new ConflictException('User with this email already exists');
+    }
+
+    await this.passwordPolicyService.validate(input.password, {
+      email: payload.email,
+      name: input.name,
+    });
+    const hashedPassword = await this.passwordService.hashPassword(
+      input.password,
+    );
+
+    // claim the invitation and create the account together so a token
+    // can't be redeemed twice; this is why invitations need the Prisma
+    // user store
+    const user = await this.prisma.$transaction(async (tx) => {
+      const claimed = await tx.invitation.updateMany({
+        where: {
+          id: payload.sub,
+          acceptedAt: null,
+          expiresAt: { gt: new Date() },
+        },
+        data: { acceptedAt: new Date() },
+      });
+      if (claimed.count === 0) {
+        throw new BadRequestException('Invalid or expired invitation');
+      }
+
+      const invitation = await tx.invitation.findUniqueOrThrow({
+        where: { id: payload.sub },
+      });
+
+      // the invitee proved they own the address by following the link
+      return tx.user.create({
+        data: {
+          email: invitation.email,
+          password: hashedPassword,
+          name: input.name,
+          role: invitation.role,
+          emailVerified: true,
+          emailVerifiedAt: new Date(),
+        },
+      });
+    });
+
+    await this.auditService.record({
+      action: AuditAction.INVITATION_ACCEPTED,
+      actorId: user.id,
+      targetId: user.id,
+      metadata: { invitationId: payload.sub, role: user.role },
+    });
+
+    return user;
+  }
+}
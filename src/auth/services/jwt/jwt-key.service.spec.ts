@@ -0,0 +1,148 @@
+import { ConfigType } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { generateKeyPairSync } from 'crypto';
+import { AuthJwtService } from './jwt.service';
+import { JwtKeyService } from './jwt-key.service';
+import { TokenVersionService } from '../token-version/token-version.service';
+import jwtConfig from 'src/config/jwt.config';
+
+const pem = (type: 'rsa' | 'ec') =>
+  type === 'rsa'
+    ? generateKeyPairSync('rsa', { modulusLength: 2048 })
+    : generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+
+const createJwtConfig = (values: Partial<ConfigType<typeof jwtConfig>>) =>
+  ({ algorithm: 'HS256', ...values }) as ConfigType<typeof jwtConfig>;
+
+describe('JwtKeyService', () => {
+  it('signs with the active key and verifies tokens from a retired key', async () => {
+    const retired = pem('ec');
+    const active = pem('ec');
+    const exportPrivate = (pair: ReturnType<typeof pem>) =>
+      pair.privateKey.export({ format: 'pem', type: 'pkcs8' }).toString();
+
+    const oldKeys = new JwtKeyService(
+      createJwtConfig({
+        algorithm: 'ES256',
+        privateKey: exportPrivate(retired),
+      }),
+    );
+    const keys = new JwtKeyService(
+      createJwtConfig({
+        algorithm: 'ES256',
+        privateKey: exportPrivate(active),
+        publicKeys: retired.publicKey
+          .export({ format: 'pem', type: 'spki' })
+          .toString(),
+      }),
+    );
+
+    const jwtService = new JwtService();
+    const config = createJwtConfig({ expiresIn: '1h' });
+    const versions = {
+      get: () => Promise.resolve(0),
+    } as unknown as TokenVersionService;
+    const oldToken = await new AuthJwtService(
+      jwtService,
+      config,
+      oldKeys,
+      versions,
+      {},
+    ).generateToken('user-1', 'a@example.com');
+    const authJwt = new AuthJwtService(jwtService, config, keys, versions, {});
+    const newToken = await authJwt.generateToken('user-1', 'a@example.com');
+
+    const header = JSON.parse(
+      Buffer.from(newToken.token.split('.')[0], 'base64url').toString(),
+    ) as { alg: string; kid: string };
+    expect(header).toEqual({
+      alg: 'ES256',
+      typ: 'JWT',
+      kid: keys.getSigningKey().kid,
+    });
+
+    expect(await authJwt.verifyToken(newToken.token)).toMatchObject({
+      sub: 'user-1',
+    });
+    expect(await authJwt.verifyToken(oldToken.token)).toMatchObject({
+      sub: 'user-1',
+    });
+    expect(keys.getJwks().keys.map((key) => key.kid)).toEqual([
+      keys.getSigningKey().kid,
+      oldKeys.getSigningKey().kid,
+    ]);
+  });
+
+  it('keeps verifying a retired key of another algorithm', async () => {
+    const retired = pem('rsa');
+    const active = pem('ec');
+    const exportPrivate = (pair: ReturnType<typeof pem>) =>
+      pair.privateKey.export({ format: 'pem', type: 'pkcs8' }).toString();
+
+    const oldKeys = new JwtKeyService(
+      createJwtConfig({
+        algorithm: 'RS256',
+        privateKey: exportPrivate(retired),
+      }),
+    );
+    const keys = new JwtKeyService(
+      createJwtConfig({
+        algorithm: 'ES256',
+        privateKey: exportPrivate(active),
+        publicKeys: retired.publicKey
+          .export({ format: 'pem', type: 'spki' })
+          .toString(),
+      }),
+    );
+    expect(keys.getVerificationAlgorithms()).toEqual(['ES256', 'RS256']);
+
+    const jwtService = new JwtService();
+    const versions = {
+      get: () => Promise.resolve(0),
+    } as unknown as TokenVersionService;
+    const config = createJwtConfig({ expiresIn: '1h' });
+    const { token } = await new AuthJwtService(
+      jwtService,
+      config,
+      oldKeys,
+      versions,
+      {},
+    ).generateToken('user-1', 'a@example.com');
+
+    const authJwt = new AuthJwtService(jwtService, config, keys, versions, {});
+    expect(await authJwt.verifyToken(token)).toMatchObject({ sub: 'user-1' });
+
+    // the same token relabelled with the other algorithm is refused
+    const [, body, signature] = token.split('.');
+    const forgedHeader = Buffer.from(
+      JSON.stringify({
+        alg: 'ES256',
+        typ: 'JWT',
+        kid: oldKeys.getSigningKey().kid,
+      }),
+    ).toString('base64url');
+    expect(keys.getKeyForToken(`${forgedHeader}.${body}.${signature}`)).toBe(
+      null,
+    );
+  });
+
+  it('rejects a key that does not match the algorithm', () => {
+    const { privateKey } = pem('ec');
+    expect(
+      () =>
+        new JwtKeyService(
+          createJwtConfig({
+            algorithm: 'RS256',
+            privateKey: privateKey
+              .export({ format: 'pem', type: 'pkcs8' })
+              .toString(),
+          }),
+        ),
+    ).toThrow('JWT_PRIVATE_KEY is not a valid RS256 key');
+  });
+
+  it('publishes no keys for HS256', () => {
+    const keys = new JwtKeyService(createJwtConfig({ secret: 'secret' }));
+    expect(keys.getJwks()).toEqual({ keys: [] });
+  });
+});
@@ -0,0 +1,200 @@
+import { Inject, Injectable } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  KeyObject,
+} from 'crypto';
+import { readFileSync } from 'fs';
+import jwtConfig from 'src/config/jwt.config';
+
+export type JwtAlgorithm = 'HS256' | 'RS256' | 'ES256';
+
+export interface JwtKey {
+  kid?: string;
+  algorithm: JwtAlgorithm;
+  // PEM for asymmetric keys, the shared secret for HS256
+  key: string;
+}
+
+export interface PublicJwk {
+  kid: string;
+  kty: string;
+  use: 'sig';
+  alg: JwtAlgorithm;
+  [member: string]: string;
+}
+
+export const JWT_ALGORITHMS: JwtAlgorithm[] = ['HS256', 'RS256', 'ES256'];
+
+/**
+ * Owns the keys used to sign and verify access tokens.
+ *
+ * HS256 signs with JWT_SECRET. RS256/ES256 sign with JWT_PRIVATE_KEY (or
+ * JWT_PRIVATE_KEY_FILE) and also accept the public keys given in
+ * JWT_PUBLIC_KEYS or JWT_PUBLIC_KEY_FILES, so tokens signed by a retired key
+ * keep verifying until they expire. Every asymmetric key is identified by its RFC 7638
+ * thumbprint, which is sent as the `kid` header and published in the JWKS.
+ */
+@Injectable()
+export class JwtKeyService {
+  readonly algorithm: JwtAlgorithm;
+  private readonly signingKey: JwtKey;
+  private readonly verificationKeys = new Map<string, JwtKey>();
+  private readonly jwks: PublicJwk[] = [];
+
+  // the env schema has already checked the algorithm, secret and key presence
+  constructor(
+    @Inject(jwtConfig.KEY) private config: ConfigType<typeof jwtConfig>,
+  ) {
+    this.algorithm = config.algorithm;
+
+    if (this.algorithm === 'HS256') {
+      this.signingKey = { algorithm: 'HS256', key: config.secret as string };
+      return;
+    }
+
+    const privatePem = this.readPem(config.privateKey, config.privateKeyFile);
+    if (!privatePem) {
+      throw new Error(
+        `JWT_PRIVATE_KEY or JWT_PRIVATE_KEY_FILE is required for ${this.algorithm}`,
+      );
+    }
+
+    const publicKey = createPublicKey(createPrivateKey(privatePem));
+    this.assertAlgorithm(publicKey, this.algorithm, 'JWT_PRIVATE_KEY');
+    const active = this.addVerificationKey(publicKey, this.algorithm);
+    this.signingKey = { ...active, key: privatePem };
+
+    for (const [source, pem] of this.readPublicKeys()) {
+      const key = createPublicKey(pem);
+      this.addVerificationKey(key, this.algorithmFor(key, source));
+    }
+  }
+
+  // retired keys: PEM blocks in JWT_PUBLIC_KEYS, comma-separated paths in JWT_PUBLIC_KEY_FILES
+  private readPublicKeys(): [string, string][] {
+    const inline: string[] =
+      (this.config.publicKeys ?? '')
+        .replace(/\\n/g, '\n')
+        .match(/-----BEGIN [A-Z ]+-----[\s\S]+?-----END [A-Z ]+-----/g) ?? [];
+    const files = (this.config.publicKeyFiles ?? '')
+      .split(',')
+      .map((file) => file.trim())
+      .filter(Boolean);
+
+    return [
+      ...inline.map((pem): [string, string] => ['JWT_PUBLIC_KEYS', pem]),
+      ...files.map((file): [string, string] => [
+        file,
+        readFileSync(file, 'utf8'),
+      ]),
+    ];
+  }
+
+  // PEM from an env var (with escaped newlines) or from a file
+  private readPem(inline?: string, file?: string): string | undefined {
+    if (inline) {
+      return inline.replace(/\\n/g, '\n');
+    }
+    return file ? readFileSync(file, 'utf8') : undefined;
+  }
+
+  private algorithmFor(key: KeyObject, source: string): JwtAlgorithm {
+    const algorithm = key.asymmetricKeyType === 'ec' ? 'ES256' : 'RS256';
+    this.assertAlgorithm(key, algorithm, source);
+    return algorithm;
+  }
+
+  private assertAlgorithm(
+    key: KeyObject,
+    algorithm: JwtAlgorithm,
+    source: string,
+  ) {
+    const valid =
+      algorithm === 'RS256'
+        ? key.asymmetricKeyType === 'rsa'
+        : key.asymmetricKeyType === 'ec' &&
+          key.asymmetricKeyDetails?.namedCurve === 'prime256v1';
+    if (!valid) {
+      throw new Error(`${source} is not a valid ${algorithm} key`);
+    }
+  }
+
+  private addVerificationKey(key: KeyObject, algorithm: JwtAlgorithm) {
+    const jwk = key.export({ format: 'jwk' }) as Record<string, string>;
+    const kid = this.thumbprint(jwk);
+    const entry: JwtKey = {
+      kid,
+      algorithm,
+      key: key.export({ format: 'pem', type: 'spki' }).toString(),
+    };
+
+    if (!this.verificationKeys.has(kid)) {
+      this.verificationKeys.set(kid, entry);
+      this.jwks.push({ ...jwk, kid, use: 'sig', alg: algorithm } as PublicJwk);
+    }
+    return entry;
+  }
+
+  // RFC 7638: sha256 over the required members in lexicographic order
+  private thumbprint(jwk: Record<string, string>): string {
+    const members =
+      jwk.kty === 'EC'
+        ? { crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y }
+        : { e: jwk.e, kty: jwk.kty, n: jwk.n };
+    return createHash('sha256')
+      .update(JSON.stringify(members))
+      .digest('base64url');
+  }
+
+  getSigningKey(): JwtKey {
+    return this.signingKey;
+  }
+
+  /**
+   * Find the key a token claims to be signed with
+   * @param kid - `kid` header of the token, if any
+   * @returns The key, or null when the kid is unknown
+   */
+  getVerificationKey(kid?: string): JwtKey | null {
+    if (this.algorithm === 'HS256') {
+      return this.signingKey;
+    }
+    return (kid && this.verificationKeys.get(kid)) || null;
+  }
+
+  // kid from the header of a raw, not yet verified token; the header's alg
+  // must be the one the key was registered for
+  getKeyForToken(token: string): JwtKey | null {
+    try {
+      const [encodedHeader] = token.split('.');
+      const header = JSON.parse(
+        Buffer.from(encodedHeader, 'base64url').toString('utf8'),
+      ) as { kid?: string; alg?: string };
+      const key = this.getVerificationKey(header.kid);
+      return key && key.algorithm === header.alg ? key : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // every algorithm a verification key accepts, e.g. RS256 and ES256 while
+  // rotating from one to the other
+  getVerificationAlgorithms(): JwtAlgorithm[] {
+    if (this.algorithm === 'HS256') {
+      return ['HS256'];
+    }
+    return [
+      ...new Set(
+        [...this.verificationKeys.values()].map((key) => key.algorithm),
+      ),
+    ];
+  }
+
+  // public keys only; symmetric secrets are never published
+  getJwks(): { keys: PublicJwk[] } {
+    return { keys: this.jwks };
+  }
+}
@@ -1,8 +1,13 @@
-import { Injectable } from '@nestjs/common';
-import { JwtService } from '@nestjs/jwt';
+import { Inject, Injectable } from '@nestjs/common';
+import { JwtService, JwtSignOptions } from '@nestjs/jwt';
 import { randomBytes } from 'crypto';
 import { UserRole } from '@prisma/client';
-import { ConfigService } from '@nestjs/config';
+import type { ConfigType } from '@nestjs/config';
+import jwtConfig from 'src/config/jwt.config';
+import { JwtKeyService } from './jwt-key.service';
+import { TokenVersionService } from '../token-version/token-version.service';
+import { AUTH_MODULE_OPTIONS } from '../../auth.module-definition';
+import type { AuthModuleOptions } from '../../auth-module-options.interface';
 
 export interface JwtPayload {
   sub: string;
@@ -10,21 +15,45 @@ export interface JwtPayload {
   role?: UserRole;
   jti?: string;
   name?: string;
+  // set on tokens issued to an OAuth client
+  scope?: string;
+  client_id?: string;
+  // the user's token version at issue time, see TokenVersionService
+  ver?: number;
   iat: number;
 }
 
 @Injectable()
 export class AuthJwtService {
+  // lifetime, issuer and audience shared by every access token
+  private readonly accessTokenOptions: JwtSignOptions;
+  // the same issuer and audience, required when verifying access tokens
+  private readonly accessTokenClaims: { issuer?: string; audience?: string };
+
   constructor(
     private jwtService: JwtService,
-    private configService: ConfigService,
-  ) {}
+    @Inject(jwtConfig.KEY) config: ConfigType<typeof jwtConfig>,
+    private jwtKeyService: JwtKeyService,
+    private tokenVersionService: TokenVersionService,
+    @Inject(AUTH_MODULE_OPTIONS) options: AuthModuleOptions,
+  ) {
+    const { expiresIn, issuer, audience } = options.jwt ?? {};
+    this.accessTokenClaims = {
+      ...(issuer && { issuer }),
+      ...(audience && { audience }),
+    };
+    this.accessTokenOptions = {
+      expiresIn: (expiresIn ?? config.expiresIn) as JwtSignOptions['expiresIn'],
+      ...this.accessTokenClaims,
+    };
+  }
 
   async generateToken(
     userId: string,
     email: string,
     name?: string,
     role?: UserRole,
+    claims: Pick<JwtPayload, 'scope' | 'client_id'> = {},
   ) {
     const tokenId = randomBytes(16).toString('hex');
     const payload: JwtPayload = {
@@ -33,10 +62,17 @@ export class AuthJwtService {
       jti: tokenId,
       ...(name && { name }),
       ...(role && { role }),
+      ...claims,
+      ver: await this.tokenVersionService.get(userId),
       iat: Math.floor(Date.now() / 1000),
     } as JwtPayload;
 
-    const token = await this.jwtService.signAsync(payload);
+    const { key, algorithm, kid } = this.jwtKeyService.getSigningKey();
+    const token = await this.jwtService.signAsync(payload, {
+      ...this.accessTokenOptions,
+      algorithm,
+      ...(kid ? { privateKey: key, keyid: kid } : { secret: key }),
+    });
 
     return {
       token,
@@ -44,9 +80,77 @@ export class AuthJwtService {
     };
   }
 
+  /**
+   * Access token for a client acting on its own behalf (client_credentials).
+   * It has no session, so it is meant for other services verifying it
+   * through the JWKS rather than for this API.
+   */
+  async generateClientToken(clientId: string, scope: string) {
+    const { key, algorithm, kid } = this.jwtKeyService.getSigningKey();
+    return this.jwtService.signAsync(
+      { sub: clientId, client_id: clientId, scope },
+      {
+        ...this.accessTokenOptions,
+        algorithm,
+        ...(kid ? { privateKey: key, keyid: kid } : { secret: key }),
+      },
+    );
+  }
+
+  /**
+   * Sign a short-lived token for something other than API access
+   * @param audience - What the token is for; checked again on verification
+   * @param expiresIn - Lifetime in seconds
+   */
+  async signPurposeToken(
+    payload: Record<string, unknown>,
+    audience: string,
+    expiresIn: number,
+  ): Promise<string> {
+    const { key, algorithm, kid } = this.jwtKeyService.getSigningKey();
+    return this.jwtService.signAsync(payload, {
+      algorithm,
+      audience,
+      expiresIn,
+      ...(kid ? { privateKey: key, keyid: kid } : { secret: key }),
+    });
+  }
+
+  // null unless the token is valid and was signed for the given audience
+  async verifyPurposeToken<T extends object>(
+    token: string,
+    audience: string,
+  ): Promise<T | null> {
+    const verificationKey = this.jwtKeyService.getKeyForToken(token);
+    if (!verificationKey) {
+      return null;
+    }
+
+    const { key, algorithm, kid } = verificationKey;
+    try {
+      return await this.jwtService.verifyAsync<T>(token, {
+        algorithms: [algorithm],
+        audience,
+        ...(kid ? { publicKey: key } : { secret: key }),
+      });
+    } catch {
+      return null;
+    }
+  }
+
   async verifyToken(token: string) {
+    const verificationKey = this.jwtKeyService.getKeyForToken(token);
+    if (!verificationKey) {
+      return null;
+    }
+
+    const { key, algorithm, kid } = verificationKey;
     try {
-      const payload = await this.jwtService.verifyAsync<JwtPayload>(token);
+      const payload = await this.jwtService.verifyAsync<JwtPayload>(token, {
+        algorithms: [algorithm],
+        ...this.accessTokenClaims,
+        ...(kid ? { publicKey: key } : { secret: key }),
+      });
       return payload;
     } catch {
       return null;
@@ -0,0 +1,77 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TooManyRequestsException } from 'src/common/exceptions/too-many-requests.exception';
+import { RedisService } from 'src/common/services/redis.service';
+import loginConfig from 'src/config/login.config';
+import { LoginThrottleService } from './login-throttle.service';
+
+describe('LoginThrottleService', () => {
+  let service: LoginThrottleService;
+  let counters: Map<string, number>;
+  let ttls: Map<string, number>;
+
+  beforeEach(async () => {
+    counters = new Map();
+    ttls = new Map();
+    const redis = {
+      incr: jest.fn((key: string) => {
+        const value = (counters.get(key) ?? 0) + 1;
+        counters.set(key, value);
+        return Promise.resolve(value);
+      }),
+      set: jest.fn((key: string, _value: string, ttl: number) => {
+        ttls.set(key, ttl);
+        return Promise.resolve();
+      }),
+      ttl: jest.fn((key: string) => Promise.resolve(ttls.get(key) ?? -2)),
+      del: jest.fn((...keys: string[]) => {
+        keys.forEach((key) => {
+          counters.delete(key);
+          ttls.delete(key);
+        });
+        return Promise.resolve(keys.length);
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoginThrottleService,
+        { provide: RedisService, useValue: redis },
+        { provide: loginConfig.KEY, useValue: loginConfig() },
+      ],
+    }).compile();
+
+    service = module.get<LoginThrottleService>(LoginThrottleService);
+  });
+
+  it('allows the free attempts without a backoff', async () => {
+    for (let i = 0; i < 3; i++) {
+      await service.recordFailure('jane@example.com', '10.0.0.1');
+    }
+
+    await expect(
+      service.assertNotThrottled('jane@example.com', '10.0.0.1'),
+    ).resolves.toBeUndefined();
+  });
+
+  it('doubles the backoff for every further failure', async () => {
+    for (let i = 0; i < 6; i++) {
+      await service.recordFailure('jane@example.com', '10.0.0.1');
+    }
+
+    expect(ttls.get('login_block:email:jane@example.com')).toBe(4);
+    await expect(
+      service.assertNotThrottled('jane@example.com'),
+    ).rejects.toThrow(TooManyRequestsException);
+  });
+
+  it('clears the email backoff on reset', async () => {
+    for (let i = 0; i < 5; i++) {
+      await service.recordFailure('jane@example.com');
+    }
+    await service.reset('jane@example.com');
+
+    await expect(
+      service.assertNotThrottled('jane@example.com'),
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,109 @@
+import { Inject, Injectable } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { TooManyRequestsException } from 'src/common/exceptions/too-many-requests.exception';
+import { RedisService } from 'src/common/services/redis.service';
+import loginConfig from 'src/config/login.config';
+
+type AttemptScope = 'email' | 'ip';
+
+@Injectable()
+export class LoginThrottleService {
+  private readonly attemptsPrefix = 'login_attempts:';
+  private readonly blockPrefix = 'login_block:';
+  // failures allowed per scope before backoff kicks in
+  private readonly freeAttempts: Record<AttemptScope, number>;
+  private readonly backoffBase: number;
+  private readonly backoffMax: number;
+  private readonly attemptWindow: number;
+  readonly lockoutThreshold: number;
+  readonly lockoutDuration: number;
+
+  constructor(
+    private redisService: RedisService,
+    @Inject(loginConfig.KEY) config: ConfigType<typeof loginConfig>,
+  ) {
+    this.freeAttempts = config.backoffAfter;
+    this.backoffBase = config.backoffBase;
+    this.backoffMax = config.backoffMax;
+    this.attemptWindow = config.attemptWindow;
+    this.lockoutThreshold = config.lockoutThreshold;
+    this.lockoutDuration = config.lockoutDuration;
+  }
+
+  private getAttemptsKey(scope: AttemptScope, value: string): string {
+    return `${this.attemptsPrefix}${scope}:${value.toLowerCase()}`;
+  }
+
+  private getBlockKey(scope: AttemptScope, value: string): string {
+    return `${this.blockPrefix}${scope}:${value.toLowerCase()}`;
+  }
+
+  private getScopes(email: string, ip?: string): [AttemptScope, string][] {
+    return ip
+      ? [
+          ['email', email],
+          ['ip', ip],
+        ]
+      : [['email', email]];
+  }
+
+  /**
+   * Reject the attempt while a backoff is running for the email or the IP
+   * @throws TooManyRequestsException with the seconds left to wait
+   */
+  async assertNotThrottled(email: string, ip?: string): Promise<void> {
+    for (const [scope, value] of this.getScopes(email, ip)) {
+      const retryAfter = await this.redisService.ttl(
+        this.getBlockKey(scope, value),
+      );
+      if (retryAfter > 0) {
+        throw new TooManyRequestsException(
+          retryAfter,
+          'Too many failed login attempts, please try again later',
+        );
+      }
+    }
+  }
+
+  /**
+   * Count a failed attempt and start an exponential backoff once the free
+   * attempts are used up
+   * @returns Failures recorded for the email in the current window
+   */
+  async recordFailure(email: string, ip?: string): Promise<number> {
+    let emailFailures = 0;
+
+    for (const [scope, value] of this.getScopes(email, ip)) {
+      const failures = await this.redisService.incr(
+        this.getAttemptsKey(scope, value),
+        this.attemptWindow,
+      );
+      if (scope === 'email') {
+        emailFailures = failures;
+      }
+
+      const excess = failures - this.freeAttempts[scope];
+      if (excess > 0) {
+        const delay = Math.min(
+          this.backoffBase * 2 ** (excess - 1),
+          this.backoffMax,
+        );
+        await this.redisService.set(
+          this.getBlockKey(scope, value),
+          '1',
+          Math.ceil(delay),
+        );
+      }
+    }
+
+    return emailFailures;
+  }
+
+  // clear the email counters after a successful login or an admin unlock
+  async reset(email: string): Promise<void> {
+    await this.redisService.del(
+      this.getAttemptsKey('email', email),
+      this.getBlockKey('email', email),
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { Injectable } from '@nestjs/common';
+import { AuditAction, User } from '@prisma/client';
+import { AuditService } from 'src/audit/audit.service';
+import { UserEntity } from 'src/user/entities/user.entity';
+import { AuthJwtService } from '../jwt/jwt.service';
+import { RefreshTokenService } from '../refresh-token/refresh-token.service';
+import { SessionMetadata, SessionService } from '../session/session.service';
+
+@Injectable()
+export class LoginService {
+  constructor(
+    private jwtService: AuthJwtService,
+    private sessionService: SessionService,
+    private refreshTokenService: RefreshTokenService,
+    private auditService: AuditService,
+  ) {}
+
+  /**
+   * Issue the access token, redis session and refresh token for a user
+   * whose credentials have already been checked
+   * @param user - Authenticated user
+   * @param metadata - Request details stored on the session
+   * @param mfa - Whether the login passed an MFA challenge
+   */
+  async completeLogin(user: User, metadata: SessionMetadata = {}, mfa = false) {
+    const { token, tokenId } = await this.jwtService.generateToken(
+      user.id,
+      user.email,
+      user.name ?? undefined,
+      user.role,
+    );
+
+    await this.sessionService.createSession(tokenId, {
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      mfa,
+      ...metadata,
+    });
+
+    // the refresh token starts a new family tied to this session
+    const refreshToken = await this.refreshTokenService.issueToken(
+      user.id,
+      tokenId,
+      { mfa },
+    );
+
+    await this.auditService.record({
+      action: AuditAction.LOGIN_SUCCESS,
+      actorId: user.id,
+      targetId: user.id,
+      ip: metadata.ip,
+      userAgent: metadata.userAgent,
+      metadata: { mfa },
+    });
+
+    return {
+      user: new UserEntity(user),
+      accessToken: token,
+      refreshToken,
+    };
+  }
+}
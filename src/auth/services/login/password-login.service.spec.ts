@@ -0,0 +1,123 @@
+import { NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { AuditAction } from '@prisma/client';
+import { AuditService } from 'src/audit/audit.service';
+import { PasswordService } from 'src/common/services/password.service';
+import { USER_LOOKUP } from '../../user-lookup/user-lookup.interface';
+import { EmailVerificationService } from '../email-verification/email-verification.service';
+import { LoginThrottleService } from '../login-throttle/login-throttle.service';
+import { MfaService } from '../mfa/mfa.service';
+import { LoginService } from './login.service';
+import { PasswordLoginService } from './password-login.service';
+
+describe('PasswordLoginService', () => {
+  let service: PasswordLoginService;
+  const user = {
+    id: 'user-1',
+    email: 'jane@example.com',
+    password: 'hash',
+    isActive: true,
+    emailVerified: true,
+    lockedUntil: null,
+    mfaEnabled: false,
+  };
+  const userLookup = { findByEmail: jest.fn(), update: jest.fn() };
+  const auditService = { record: jest.fn() };
+  const loginService = { completeLogin: jest.fn() };
+  const metadata = { ip: '10.0.0.1', userAgent: 'curl/8.0' };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PasswordLoginService,
+        { provide: USER_LOOKUP, useValue: userLookup },
+        {
+          provide: PasswordService,
+          useValue: {
+            comparePassword: (password: string) =>
+              Promise.resolve(password === 'correct horse'),
+            needsRehash: () => false,
+          },
+        },
+        {
+          provide: EmailVerificationService,
+          useValue: { isVerificationRequired: () => false },
+        },
+        { provide: LoginService, useValue: loginService },
+        { provide: MfaService, useValue: {} },
+        {
+          provide: LoginThrottleService,
+          useValue: {
+            assertNotThrottled: jest.fn(),
+            recordFailure: () => Promise.resolve(1),
+            reset: jest.fn(),
+            lockoutThreshold: 10,
+          },
+        },
+        { provide: AuditService, useValue: auditService },
+      ],
+    }).compile();
+
+    service = module.get<PasswordLoginService>(PasswordLoginService);
+  });
+
+  it('records a wrong password against the account', async () => {
+    userLookup.findByEmail.mockResolvedValue(user);
+
+    await expect(
+      service.login({ email: 'jane@example.com', password: 'wrong' }, metadata),
+    ).rejects.toThrow(UnauthorizedException);
+
+    expect(auditService.record).toHaveBeenCalledWith({
+      action: AuditAction.LOGIN_FAILURE,
+      targetId: 'user-1',
+      ...metadata,
+      metadata: { email: 'jane@example.com', reason: 'bad_password' },
+    });
+  });
+
+  it('records attempts on unknown and inactive accounts', async () => {
+    userLookup.findByEmail.mockResolvedValue(null);
+    await expect(
+      service.login(
+        { email: 'nobody@example.com', password: 'correct horse' },
+        metadata,
+      ),
+    ).rejects.toThrow(NotFoundException);
+
+    userLookup.findByEmail.mockResolvedValue({ ...user, isActive: false });
+    await expect(
+      service.login(
+        { email: 'jane@example.com', password: 'correct horse' },
+        metadata,
+      ),
+    ).rejects.toThrow(UnauthorizedException);
+
+    expect(auditService.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        targetId: undefined,
+        metadata: { email: 'nobody@example.com', reason: 'unknown_email' },
+      }),
+    );
+    expect(auditService.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        targetId: 'user-1',
+        metadata: { email: 'jane@example.com', reason: 'inactive' },
+      }),
+    );
+  });
+
+  it('leaves a successful login to LoginService', async () => {
+    userLookup.findByEmail.mockResolvedValue(user);
+
+    await service.login(
+      { email: 'jane@example.com', password: 'correct horse' },
+      metadata,
+    );
+
+    expect(loginService.completeLogin).toHaveBeenCalledWith(user, metadata);
+    expect(auditService.record).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,123 @@
+import {
+  Inject,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { AuditAction } from '@prisma/client';
+import { AuditService } from 'src/audit/audit.service';
+import { TooManyRequestsException } from 'src/common/exceptions/too-many-requests.exception';
+import { PasswordService } from 'src/common/services/password.service';
+import { LoginUserDto } from '../../dto/login-user.dto';
+import { USER_LOOKUP } from '../../user-lookup/user-lookup.interface';
+import type { UserLookup } from '../../user-lookup/user-lookup.interface';
+import { EmailVerificationService } from '../email-verification/email-verification.service';
+import { LoginThrottleService } from '../login-throttle/login-throttle.service';
+import { MfaService } from '../mfa/mfa.service';
+import { SessionMetadata } from '../session/session.service';
+import { LoginService } from './login.service';
+
+// email/password login against whatever user store USER_LOOKUP points at
+@Injectable()
+export class PasswordLoginService {
+  constructor(
+    @Inject(USER_LOOKUP) private userLookup: UserLookup,
+    private passwordService: PasswordService,
+    private emailVerificationService: EmailVerificationService,
+    private loginService: LoginService,
+    private mfaService: MfaService,
+    private loginThrottleService: LoginThrottleService,
+    private auditService: AuditService,
+  ) {}
+
+  async login(loginUserDto: LoginUserDto, metadata: SessionMetadata = {}) {
+    const { email } = loginUserDto;
+    await this.loginThrottleService.assertNotThrottled(email, metadata.ip);
+
+    const user = await this.userLookup.findByEmail(email);
+
+    if (!user) {
+      await this.loginThrottleService.recordFailure(email, metadata.ip);
+      await this.recordLoginFailure(email, 'unknown_email', metadata);
+      throw new NotFoundException('Invalid Email or Password');
+    }
+
+    if (user.lockedUntil && user.lockedUntil.getTime() > Date.now()) {
+      await this.recordLoginFailure(email, 'locked', metadata, user.id);
+      throw new TooManyRequestsException(
+        Math.ceil((user.lockedUntil.getTime() - Date.now()) / 1000),
+        'Account is temporarily locked',
+      );
+    }
+
+    if (!user.isActive) {
+      await this.recordLoginFailure(email, 'inactive', metadata, user.id);
+      throw new UnauthorizedException('Account is Inactive');
+    }
+
+    //up next is to verify the hashed password with the one that was passed in the dto
+
+    const isVerified = await this.passwordService.comparePassword(
+      loginUserDto.password,
+      user.password,
+    );
+
+    if (!isVerified) {
+      const failures = await this.loginThrottleService.recordFailure(
+        email,
+        metadata.ip,
+      );
+      // too many failures lock the account itself, whatever the source IP
+      if (failures >= this.loginThrottleService.lockoutThreshold) {
+        await this.userLookup.update(user.id, {
+          lockedUntil: new Date(
+            Date.now() + this.loginThrottleService.lockoutDuration * 1000,
+          ),
+        });
+        await this.loginThrottleService.reset(email);
+      }
+      await this.recordLoginFailure(email, 'bad_password', metadata, user.id);
+      throw new UnauthorizedException('Invalid Email or Passowrd');
+    }
+
+    await this.loginThrottleService.reset(email);
+
+    // the plaintext is only available now, so outdated hashes are upgraded here
+    if (this.passwordService.needsRehash(user.password)) {
+      user.password = await this.passwordService.hashPassword(
+        loginUserDto.password,
+      );
+      await this.userLookup.update(user.id, { password: user.password });
+    }
+
+    if (
+      !user.emailVerified &&
+      this.emailVerificationService.isVerificationRequired()
+    ) {
+      await this.recordLoginFailure(email, 'unverified', metadata, user.id);
+      throw new UnauthorizedException('Email address is not verified');
+    }
+
+    // with MFA on, the caller has to pass a challenge before getting tokens
+    if (user.mfaEnabled) {
+      return this.mfaService.createChallenge(user, metadata);
+    }
+
+    return this.loginService.completeLogin(user, metadata);
+  }
+
+  private async recordLoginFailure(
+    email: string,
+    reason: string,
+    metadata: SessionMetadata,
+    userId?: string,
+  ) {
+    await this.auditService.record({
+      action: AuditAction.LOGIN_FAILURE,
+      targetId: userId,
+      ip: metadata.ip,
+      userAgent: metadata.userAgent,
+      metadata: { email, reason },
+    });
+  }
+}
@@ -0,0 +1,246 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { AuditAction, User, UserRole } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from 'prisma/prisma.service';
+import { AuditService } from 'src/audit/audit.service';
+import { RedisService } from 'src/common/services/redis.service';
+import mfaConfig from 'src/config/mfa.config';
+import { LoginService } from '../login/login.service';
+import { SessionMetadata } from '../session/session.service';
+import { TotpService } from './totp.service';
+import { USER_LOOKUP } from '../../user-lookup/user-lookup.interface';
+import type { UserLookup } from '../../user-lookup/user-lookup.interface';
+
+interface MfaChallenge {
+  userId: string;
+  attempts: number;
+  metadata: SessionMetadata;
+}
+
+@Injectable()
+export class MfaService {
+  private readonly challengePrefix = 'mfa_challenge:';
+  private readonly usedStepPrefix = 'mfa_used_step:';
+  private readonly challengeTTL = 300;
+  private readonly maxChallengeAttempts = 5;
+  private readonly recoveryCodeCount = 10;
+  private readonly issuer: string;
+  private readonly requiredRoles: UserRole[];
+
+  constructor(
+    private prisma: PrismaService,
+    private redisService: RedisService,
+    private totpService: TotpService,
+    private loginService: LoginService,
+    @Inject(mfaConfig.KEY) config: ConfigType<typeof mfaConfig>,
+    private auditService: AuditService,
+    @Inject(USER_LOOKUP) private userLookup: UserLookup,
+  ) {
+    this.issuer = config.issuer;
+    this.requiredRoles = config.requiredRoles;
+  }
+
+  private hashCode(code: string): string {
+    return createHash('sha256')
+      .update(code.replace(/-/g, '').toLowerCase())
+      .digest('hex');
+  }
+
+  // whether routes guarded by @Roles demand an MFA-verified session
+  isRequiredForRole(role?: UserRole): boolean {
+    return !!role && this.requiredRoles.includes(role);
+  }
+
+  /**
+   * Start enrollment by storing a fresh secret; MFA stays off until confirmed
+   * @returns The secret and an otpauth:// URI for QR codes
+   */
+  async enroll(userId: string) {
+    const user = await this.findUser(userId);
+    if (user.mfaEnabled) {
+      throw new ConflictException('MFA is already enabled');
+    }
+
+    const secret = this.totpService.generateSecret();
+    await this.userLookup.update(userId, { mfaSecret: secret });
+
+    return {
+      secret,
+      otpauthUrl: this.totpService.buildOtpAuthUrl(
+        secret,
+        user.email,
+        this.issuer,
+      ),
+    };
+  }
+
+  /**
+   * Turn MFA on once the first code from the authenticator app checks out
+   * @returns Recovery codes, shown to the user only this once
+   */
+  async confirm(userId: string, code: string): Promise<string[]> {
+    const user = await this.findUser(userId);
+    if (user.mfaEnabled) {
+      throw new ConflictException('MFA is already enabled');
+    }
+    if (!user.mfaSecret) {
+      throw new BadRequestException('MFA enrollment has not been started');
+    }
+
+    if (!(await this.verifyTotp(user, code))) {
+      throw new BadRequestException('Invalid MFA code');
+    }
+
+    await this.userLookup.update(userId, { mfaEnabled: true });
+
+    return this.regenerateRecoveryCodes(userId);
+  }
+
+  async disable(userId: string, code: string): Promise<void> {
+    const user = await this.findUser(userId);
+    if (!user.mfaEnabled) {
+      throw new BadRequestException('MFA is not enabled');
+    }
+
+    if (!(await this.verifyCode(user, code))) {
+      throw new BadRequestException('Invalid MFA code');
+    }
+
+    // the user store may not share our database, so this can't be one
+    // transaction; codes left behind are never checked once MFA is off
+    await this.userLookup.update(userId, {
+      mfaEnabled: false,
+      mfaSecret: null,
+    });
+    await this.prisma.mfaRecoveryCode.deleteMany({ where: { userId } });
+  }
+
+  // replaces any previous recovery codes
+  async regenerateRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: this.recoveryCodeCount }, () => {
+      const raw = randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    await this.prisma.$transaction([
+      this.prisma.mfaRecoveryCode.deleteMany({ where: { userId } }),
+      this.prisma.mfaRecoveryCode.createMany({
+        data: codes.map((code) => ({ userId, codeHash: this.hashCode(code) })),
+      }),
+    ]);
+
+    return codes;
+  }
+
+  // called by login once the password checked out
+  async createChallenge(user: User, metadata: SessionMetadata = {}) {
+    const challengeToken = randomBytes(32).toString('hex');
+    const challenge: MfaChallenge = { userId: user.id, attempts: 0, metadata };
+
+    await this.redisService.set(
+      `${this.challengePrefix}${challengeToken}`,
+      JSON.stringify(challenge),
+      this.challengeTTL,
+    );
+
+    return { mfaRequired: true, challengeToken };
+  }
+
+  /**
+   * Finish a login that is waiting on a second factor
+   * @param challengeToken - Token returned by login
+   * @param code - TOTP code or an unused recovery code
+   */
+  async verifyChallenge(challengeToken: string, code: string) {
+    const key = `${this.challengePrefix}${challengeToken}`;
+    const value = await this.redisService.get(key);
+    if (!value) {
+      throw new UnauthorizedException('MFA challenge expired or invalid');
+    }
+
+    const challenge = JSON.parse(value) as MfaChallenge;
+    const user = await this.userLookup.findById(challenge.userId);
+    if (!user || !user.isActive || !user.mfaEnabled) {
+      await this.redisService.del(key);
+      throw new UnauthorizedException('MFA challenge expired or invalid');
+    }
+
+    if (!(await this.verifyCode(user, code))) {
+      challenge.attempts += 1;
+      if (challenge.attempts >= this.maxChallengeAttempts) {
+        await this.redisService.del(key);
+      } else {
+        await this.redisService.set(
+          key,
+          JSON.stringify(challenge),
+          this.challengeTTL,
+        );
+      }
+      await this.auditService.record({
+        action: AuditAction.LOGIN_FAILURE,
+        targetId: user.id,
+        ip: challenge.metadata.ip,
+        userAgent: challenge.metadata.userAgent,
+        metadata: { email: user.email, reason: 'bad_mfa_code' },
+      });
+      throw new UnauthorizedException('Invalid MFA code');
+    }
+
+    // challenges are single-use
+    await this.redisService.del(key);
+    return this.loginService.completeLogin(user, challenge.metadata, true);
+  }
+
+  private async findUser(userId: string): Promise<User> {
+    const user = await this.userLookup.findById(userId);
+    if (!user) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+    return user;
+  }
+
+  // accepts either a TOTP code or a recovery code
+  private async verifyCode(user: User, code: string): Promise<boolean> {
+    if (await this.verifyTotp(user, code)) {
+      return true;
+    }
+    return this.useRecoveryCode(user.id, code);
+  }
+
+  // a TOTP code is only accepted once, even within its validity window
+  private async verifyTotp(user: User, code: string): Promise<boolean> {
+    if (!user.mfaSecret) {
+      return false;
+    }
+
+    const step = this.totpService.verify(user.mfaSecret, code);
+    if (step === null) {
+      return false;
+    }
+
+    const usedKey = `${this.usedStepPrefix}${user.id}`;
+    const lastUsed = await this.redisService.get(usedKey);
+    if (lastUsed && Number(lastUsed) >= step) {
+      return false;
+    }
+
+    await this.redisService.set(usedKey, String(step), 120);
+    return true;
+  }
+
+  private async useRecoveryCode(userId: string, code: string) {
+    const result = await this.prisma.mfaRecoveryCode.updateMany({
+      where: { userId, codeHash: this.hashCode(code), usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    return result.count > 0;
+  }
+}
@@ -0,0 +1,39 @@
+import { TotpService } from './totp.service';
+
+describe('TotpService', () => {
+  const service = new TotpService();
+  // RFC 6238 appendix B seed "12345678901234567890", base32 encoded
+  const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+  it('matches the RFC 6238 SHA1 test vectors', () => {
+    expect(service.generateCode(secret, service.getStep(59_000))).toBe(
+      '287082',
+    );
+    expect(
+      service.generateCode(secret, service.getStep(1_111_111_109_000)),
+    ).toBe('081804');
+  });
+
+  it('accepts the current code and reports its step', () => {
+    const step = service.getStep();
+    expect(service.verify(secret, service.generateCode(secret, step))).toBe(
+      step,
+    );
+  });
+
+  it('rejects codes outside the window', () => {
+    const stale = service.generateCode(secret, service.getStep() - 5);
+    expect(service.verify(secret, stale)).toBeNull();
+    expect(service.verify(secret, 'abcdef')).toBeNull();
+  });
+
+  it('builds an otpauth URI for authenticator apps', () => {
+    const url = service.buildOtpAuthUrl(secret, 'jane@example.com', 'Acme');
+    expect(url).toMatch(/^otpauth:\/\/totp\/Acme%3Ajane%40example\.com\?/);
+    expect(url).toContain(`secret=${secret}`);
+  });
+
+  it('generates base32 secrets', () => {
+    expect(service.generateSecret()).toMatch(/^[A-Z2-7]{32}$/);
+  });
+});
@@ -0,0 +1,148 @@
+import { HttpStatus, Injectable, NotFoundException } from '@nestjs/common';
+import { OAuthClient } from '@prisma/client';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { PrismaService } from 'prisma/prisma.service';
+import { OAuthException } from 'src/common/exceptions/oauth.exception';
+import { CreateOAuthClientDto } from '../../dto/create-oauth-client.dto';
+import { OAuthGrantType } from './oauth-server.constants';
+
+// what admins get back; the secret hash never leaves the service
+export type OAuthClientView = Omit<OAuthClient, 'clientSecretHash'> & {
+  confidential: boolean;
+};
+
+@Injectable()
+export class OAuthClientService {
+  constructor(private prisma: PrismaService) {}
+
+  // secrets are random, so a plain sha256 is enough to store them
+  private hashSecret(secret: string): string {
+    return createHash('sha256').update(secret).digest('hex');
+  }
+
+  private toView({ clientSecretHash, ...client }: OAuthClient) {
+    return { ...client, confidential: !!clientSecretHash };
+  }
+
+  /**
+   * Register an internal app
+   * @returns The client, plus its secret for confidential clients; the
+   * secret is only ever returned here and by rotateSecret
+   */
+  async create(
+    dto: CreateOAuthClientDto,
+    createdById: string,
+  ): Promise<OAuthClientView & { clientSecret?: string }> {
+    const confidential = dto.confidential ?? true;
+    const clientSecret = confidential
+      ? randomBytes(32).toString('base64url')
+      : undefined;
+
+    const client = await this.prisma.oAuthClient.create({
+      data: {
+        clientId: randomBytes(16).toString('hex'),
+        clientSecretHash: clientSecret ? this.hashSecret(clientSecret) : null,
+        name: dto.name,
+        redirectUris: dto.redirectUris,
+        grantTypes: dto.grantTypes,
+        scopes: dto.scopes,
+        createdById,
+      },
+    });
+
+    return { ...this.toView(client), clientSecret };
+  }
+
+  async findAll(): Promise<OAuthClientView[]> {
+    const clients = await this.prisma.oAuthClient.findMany({
+      orderBy: { createdAt: 'desc' },
+    });
+    return clients.map((client) => this.toView(client));
+  }
+
+  findByClientId(clientId: string): Promise<OAuthClient | null> {
+    return this.prisma.oAuthClient.findUnique({ where: { clientId } });
+  }
+
+  // the old secret stops working immediately
+  async rotateSecret(clientId: string) {
+    const client = await this.findOrFail(clientId);
+    if (!client.clientSecretHash) {
+      throw new NotFoundException(
+        `OAuth client ${clientId} is public and has no secret`,
+      );
+    }
+
+    const clientSecret = randomBytes(32).toString('base64url');
+    await this.prisma.oAuthClient.update({
+      where: { clientId },
+      data: { clientSecretHash: this.hashSecret(clientSecret) },
+    });
+    return { clientId, clientSecret };
+  }
+
+  // codes and consents cascade; refresh tokens are revoked so they can't outlive it
+  async remove(clientId: string): Promise<void> {
+    await this.findOrFail(clientId);
+    await this.prisma.$transaction([
+      this.prisma.refreshToken.updateMany({
+        where: { clientId, revokedAt: null },
+        data: { revokedAt: new Date() },
+      }),
+      this.prisma.oAuthClient.delete({ where: { clientId } }),
+    ]);
+  }
+
+  /**
+   * Authenticate a client at the token endpoint and check it may use the grant
+   * @param secret - Required for confidential clients, ignored for public ones
+   * @throws OAuthException invalid_client or unauthorized_client
+   */
+  async authenticate(
+    clientId: string | undefined,
+    secret: string | undefined,
+    grantType: OAuthGrantType,
+  ): Promise<OAuthClient> {
+    const client = clientId ? await this.findByClientId(clientId) : null;
+    if (!client || !this.secretMatches(client, secret)) {
+      throw new OAuthException(
+        'invalid_client',
+        'Client authentication failed',
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    // a public client can't keep a secret, so it can't act on its own behalf
+    const allowed =
+      client.grantTypes.includes(grantType) &&
+      (grantType !== 'client_credentials' || !!client.clientSecretHash);
+    if (!allowed) {
+      throw new OAuthException(
+        'unauthorized_client',
+        `Client is not allowed to use the ${grantType} grant`,
+      );
+    }
+    return client;
+  }
+
+  private secretMatches(client: OAuthClient, secret?: string): boolean {
+    if (!client.clientSecretHash) {
+      return true;
+    }
+    if (!secret) {
+      return false;
+    }
+    return timingSafeEqual(
+      Buffer.from(this.hashSecret(secret)),
+      Buffer.from(client.clientSecretHash),
+    );
+  }
+
+  private async findOrFail(clientId: string): Promise<OAuthClient> {
+    const client = await this.findByClientId(clientId);
+    if (!client) {
+      throw new NotFoundException(`OAuth client ${clientId} not found`);
+    }
+    return client;
+  }
+}
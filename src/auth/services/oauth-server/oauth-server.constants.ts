@@ -0,0 +1,10 @@
+export const OAUTH_GRANT_TYPES = [
+  'authorization_code',
+  'refresh_token',
+  'client_credentials',
+] as const;
+
+export type OAuthGrantType = (typeof OAUTH_GRANT_TYPES)[number];
+
+// scopes about the signed-in user; meaningless for client_credentials
+export const USER_SCOPES = ['openid', 'profile', 'email', 'offline_access'];
@@ -0,0 +1,165 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { createHash } from 'crypto';
+import { PrismaService } from 'prisma/prisma.service';
+import { AuditService } from 'src/audit/audit.service';
+import { OAuthException } from 'src/common/exceptions/oauth.exception';
+import oauthConfig from 'src/config/oauth.config';
+import { AuthJwtService } from '../jwt/jwt.service';
+import { JwtKeyService } from '../jwt/jwt-key.service';
+import { RefreshTokenService } from '../refresh-token/refresh-token.service';
+import { SessionService } from '../session/session.service';
+import { OAuthClientService } from './oauth-client.service';
+import { USER_LOOKUP } from '../../user-lookup/user-lookup.interface';
+import { OAuthServerService } from './oauth-server.service';
+
+describe('OAuthServerService', () => {
+  let service: OAuthServerService;
+  let storedCode: Record<string, unknown> | null;
+  let jwtService: { signPurposeToken: jest.Mock };
+  let jwtKeyService: { algorithm: string };
+
+  const verifier = 'a-code-verifier-that-is-long-enough-for-pkce-0123456789';
+  const client = {
+    clientId: 'client-1',
+    name: 'Dashboard',
+    clientSecretHash: null,
+    redirectUris: ['https://app.internal/callback'],
+    grantTypes: ['authorization_code', 'refresh_token'],
+    scopes: ['openid', 'email', 'offline_access'],
+  };
+
+  const user = {
+    id: 'user-1',
+    email: 'ada@example.com',
+    emailVerified: true,
+    name: 'Ada',
+    role: 'USER',
+    isActive: true,
+  };
+
+  beforeEach(async () => {
+    storedCode = {
+      id: 'code-1',
+      clientId: client.clientId,
+      redirectUri: client.redirectUris[0],
+      scope: 'openid email',
+      codeChallenge: createHash('sha256').update(verifier).digest('base64url'),
+      nonce: 'n-1',
+      expiresAt: new Date(Date.now() + 60_000),
+      usedAt: null,
+      userId: user.id,
+    };
+    const prisma = {
+      oAuthAuthorizationCode: {
+        findUnique: jest.fn(() => Promise.resolve(storedCode)),
+        updateMany: jest.fn(() => {
+          const count = storedCode && !storedCode.usedAt ? 1 : 0;
+          if (storedCode) {
+            storedCode.usedAt = new Date();
+          }
+          return Promise.resolve({ count });
+        }),
+      },
+    };
+    jwtKeyService = { algorithm: 'RS256' };
+    jwtService = {
+      signPurposeToken: jest.fn().mockResolvedValue('id-token'),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OAuthServerService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: OAuthClientService,
+          useValue: {
+            authenticate: jest.fn().mockResolvedValue(client),
+            findByClientId: jest.fn().mockResolvedValue(client),
+          },
+        },
+        {
+          provide: AuthJwtService,
+          useValue: {
+            ...jwtService,
+            generateToken: jest
+              .fn()
+              .mockResolvedValue({ token: 'access', tokenId: 'jti-1' }),
+          },
+        },
+        { provide: JwtKeyService, useValue: jwtKeyService },
+        { provide: SessionService, useValue: { createSession: jest.fn() } },
+        {
+          provide: RefreshTokenService,
+          useValue: { issueToken: jest.fn().mockResolvedValue('refresh') },
+        },
+        { provide: oauthConfig.KEY, useValue: oauthConfig() },
+        { provide: AuditService, useValue: { record: jest.fn() } },
+        {
+          provide: USER_LOOKUP,
+          useValue: { findById: () => Promise.resolve(user) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<OAuthServerService>(OAuthServerService);
+  });
+
+  const exchange = (codeVerifier = verifier) =>
+    service.token(
+      {
+        grant_type: 'authorization_code',
+        code: 'raw-code',
+        redirect_uri: client.redirectUris[0],
+        code_verifier: codeVerifier,
+      },
+      { clientId: client.clientId },
+    );
+
+  it('exchanges a code for an access token and an id token', async () => {
+    await expect(exchange()).resolves.toEqual({
+      access_token: 'access',
+      token_type: 'Bearer',
+      scope: 'openid email',
+      id_token: 'id-token',
+    });
+    expect(jwtService.signPurposeToken).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sub: 'user-1',
+        email: 'ada@example.com',
+        nonce: 'n-1',
+      }),
+      client.clientId,
+      300,
+    );
+  });
+
+  it('rejects a code verifier that does not match the challenge', async () => {
+    await expect(exchange('some-other-verifier')).rejects.toBeInstanceOf(
+      OAuthException,
+    );
+  });
+
+  it('only redeems a code once', async () => {
+    await exchange();
+    await expect(exchange()).rejects.toMatchObject({ error: 'invalid_grant' });
+  });
+
+  it('refuses openid when ID tokens would be signed with JWT_SECRET', async () => {
+    jwtKeyService.algorithm = 'HS256';
+    const request = {
+      response_type: 'code',
+      client_id: client.clientId,
+      redirect_uri: client.redirectUris[0],
+      code_challenge: 'challenge',
+      code_challenge_method: 'S256',
+    };
+
+    await expect(
+      service.validateAuthorizeRequest({ ...request, scope: 'openid email' }),
+    ).rejects.toMatchObject({ error: 'invalid_scope' });
+    await expect(
+      service.validateAuthorizeRequest({ ...request, scope: 'email' }),
+    ).resolves.toMatchObject({ scopes: ['email'] });
+    await expect(exchange()).resolves.not.toHaveProperty('id_token');
+  });
+});
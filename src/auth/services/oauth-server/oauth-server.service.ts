@@ -0,0 +1,500 @@
+import { HttpStatus, Inject, Injectable } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { AuditAction, OAuthClient, User } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from 'prisma/prisma.service';
+import { AuditService } from 'src/audit/audit.service';
+import type { AuthenticatedUser } from 'src/common/decorators/user.decorator';
+import { OAuthException } from 'src/common/exceptions/oauth.exception';
+import oauthConfig from 'src/config/oauth.config';
+import { AuthorizeRequestDto } from '../../dto/authorize-request.dto';
+import { TokenRequestDto } from '../../dto/token-request.dto';
+import { AuthJwtService } from '../jwt/jwt.service';
+import { JwtKeyService } from '../jwt/jwt-key.service';
+import { RefreshTokenService } from '../refresh-token/refresh-token.service';
+import { SessionMetadata, SessionService } from '../session/session.service';
+import { OAuthClientService } from './oauth-client.service';
+import { USER_LOOKUP } from '../../user-lookup/user-lookup.interface';
+import type { UserLookup } from '../../user-lookup/user-lookup.interface';
+import {
+  OAUTH_GRANT_TYPES,
+  OAuthGrantType,
+  USER_SCOPES,
+} from './oauth-server.constants';
+
+// client credentials from an `Authorization: Basic` header or the body
+export interface ClientCredentials {
+  clientId?: string;
+  clientSecret?: string;
+}
+
+export interface OAuthTokenResponse {
+  access_token: string;
+  token_type: 'Bearer';
+  scope: string;
+  refresh_token?: string;
+  id_token?: string;
+}
+
+export type AuthorizeResult =
+  | { redirectTo: string }
+  | {
+      consentRequired: true;
+      client: { clientId: string; name: string };
+      scopes: string[];
+    };
+
+/**
+ * Lets internal apps sign users in through this service (OAuth 2.0 with
+ * OpenID Connect). Access tokens are the same session-backed JWTs issued at
+ * login, tagged with the client and granted scope; the guards only accept
+ * them on userinfo. ID tokens need an RS256 or ES256 key: clients can't
+ * check an HS256 signature without JWT_SECRET.
+ */
+@Injectable()
+export class OAuthServerService {
+  private readonly codeTTL = 60;
+  private readonly idTokenTTL = 300;
+  private readonly issuer: string;
+
+  constructor(
+    private prisma: PrismaService,
+    private oauthClientService: OAuthClientService,
+    private jwtService: AuthJwtService,
+    private jwtKeyService: JwtKeyService,
+    private sessionService: SessionService,
+    private refreshTokenService: RefreshTokenService,
+    @Inject(oauthConfig.KEY) config: ConfigType<typeof oauthConfig>,
+    private auditService: AuditService,
+    @Inject(USER_LOOKUP) private userLookup: UserLookup,
+  ) {
+    this.issuer = config.issuer;
+  }
+
+  private get signsIdTokens(): boolean {
+    return this.jwtKeyService.algorithm !== 'HS256';
+  }
+
+  private hash(value: string): string {
+    return createHash('sha256').update(value).digest('hex');
+  }
+
+  private parseScope(scope?: string): string[] {
+    return [...new Set((scope ?? '').split(' ').filter(Boolean))];
+  }
+
+  private buildRedirect(redirectUri: string, params: Record<string, string>) {
+    const url = new URL(redirectUri);
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, value);
+    }
+    return url.toString();
+  }
+
+  /**
+   * Check an authorization request against the registered client
+   * @returns The client and the requested scopes
+   * @throws OAuthException; never redirected, since the redirect URI may be
+   * the thing that is wrong
+   */
+  async validateAuthorizeRequest(request: AuthorizeRequestDto) {
+    const client = await this.oauthClientService.findByClientId(
+      request.client_id,
+    );
+    if (!client || !client.redirectUris.includes(request.redirect_uri)) {
+      throw new OAuthException(
+        'invalid_request',
+        'Unknown client or unregistered redirect_uri',
+      );
+    }
+    if (!client.grantTypes.includes('authorization_code')) {
+      throw new OAuthException(
+        'unauthorized_client',
+        'Client is not allowed to use the authorization_code grant',
+      );
+    }
+
+    const scopes = this.parseScope(request.scope);
+    this.assertScopesAllowed(client, scopes);
+    if (scopes.includes('openid') && !this.signsIdTokens) {
+      throw new OAuthException(
+        'invalid_scope',
+        'openid needs an RS256 or ES256 signing key',
+      );
+    }
+    return { client, scopes };
+  }
+
+  /**
+   * First step of the consent screen
+   * @returns A redirect straight back to the client when the user already
+   * approved these scopes, otherwise what to show on the consent screen
+   */
+  async authorize(
+    userId: string,
+    request: AuthorizeRequestDto,
+  ): Promise<AuthorizeResult> {
+    const { client, scopes } = await this.validateAuthorizeRequest(request);
+
+    const consent = await this.prisma.oAuthConsent.findUnique({
+      where: { userId_clientId: { userId, clientId: client.clientId } },
+    });
+    if (consent && scopes.every((scope) => consent.scopes.includes(scope))) {
+      return { redirectTo: await this.issueCode(userId, request, scopes) };
+    }
+
+    return {
+      consentRequired: true,
+      client: { clientId: client.clientId, name: client.name },
+      scopes,
+    };
+  }
+
+  // the user's answer on the consent screen
+  async decide(
+    userId: string,
+    request: AuthorizeRequestDto,
+    approve: boolean,
+  ): Promise<{ redirectTo: string }> {
+    const { client, scopes } = await this.validateAuthorizeRequest(request);
+
+    if (!approve) {
+      return {
+        redirectTo: this.buildRedirect(request.redirect_uri, {
+          error: 'access_denied',
+          ...(request.state && { state: request.state }),
+        }),
+      };
+    }
+
+    const existing = await this.prisma.oAuthConsent.findUnique({
+      where: { userId_clientId: { userId, clientId: client.clientId } },
+    });
+    const granted = [...new Set([...(existing?.scopes ?? []), ...scopes])];
+    await this.prisma.oAuthConsent.upsert({
+      where: { userId_clientId: { userId, clientId: client.clientId } },
+      create: { userId, clientId: client.clientId, scopes: granted },
+      update: { scopes: granted },
+    });
+
+    await this.auditService.record({
+      action: AuditAction.OAUTH_CONSENT_GRANTED,
+      actorId: userId,
+      targetId: userId,
+      metadata: { clientId: client.clientId, scopes },
+    });
+
+    return { redirectTo: await this.issueCode(userId, request, scopes) };
+  }
+
+  // single-use code, stored hashed and bound to the PKCE challenge
+  private async issueCode(
+    userId: string,
+    request: AuthorizeRequestDto,
+    scopes: string[],
+  ): Promise<string> {
+    const code = randomBytes(32).toString('base64url');
+
+    await this.prisma.oAuthAuthorizationCode.create({
+      data: {
+        codeHash: this.hash(code),
+        clientId: request.client_id,
+        userId,
+        redirectUri: request.redirect_uri,
+        scope: scopes.join(' '),
+        codeChallenge: request.code_challenge,
+        nonce: request.nonce,
+        expiresAt: new Date(Date.now() + this.codeTTL * 1000),
+      },
+    });
+
+    return this.buildRedirect(request.redirect_uri, {
+      code,
+      ...(request.state && { state: request.state }),
+    });
+  }
+
+  /**
+   * Token endpoint
+   * @param credentials - Client credentials from the Authorization header;
+   * client_id/client_secret in the body are used when absent
+   */
+  async token(
+    request: TokenRequestDto,
+    credentials: ClientCredentials,
+    metadata: SessionMetadata = {},
+  ): Promise<OAuthTokenResponse> {
+    const grantType = request.grant_type as OAuthGrantType;
+    if (!OAUTH_GRANT_TYPES.includes(grantType)) {
+      throw new OAuthException(
+        'unsupported_grant_type',
+        `Unsupported grant_type ${request.grant_type}`,
+      );
+    }
+
+    const client = await this.oauthClientService.authenticate(
+      credentials.clientId ?? request.client_id,
+      credentials.clientSecret ?? request.client_secret,
+      grantType,
+    );
+
+    switch (grantType) {
+      case 'authorization_code':
+        return this.exchangeCode(client, request, metadata);
+      case 'refresh_token':
+        return this.refresh(client, request, metadata);
+      case 'client_credentials':
+        return this.clientCredentials(client, request);
+    }
+  }
+
+  private async exchangeCode(
+    client: OAuthClient,
+    request: TokenRequestDto,
+    metadata: SessionMetadata,
+  ): Promise<OAuthTokenResponse> {
+    if (!request.code || !request.code_verifier) {
+      throw new OAuthException(
+        'invalid_request',
+        'code and code_verifier are required',
+      );
+    }
+
+    const stored = await this.prisma.oAuthAuthorizationCode.findUnique({
+      where: { codeHash: this.hash(request.code) },
+    });
+    const user = stored && (await this.userLookup.findById(stored.userId));
+    const challenge = createHash('sha256')
+      .update(request.code_verifier)
+      .digest('base64url');
+
+    const valid =
+      stored &&
+      !stored.usedAt &&
+      stored.expiresAt.getTime() > Date.now() &&
+      stored.clientId === client.clientId &&
+      stored.redirectUri === request.redirect_uri &&
+      stored.codeChallenge === challenge &&
+      user?.isActive;
+    if (!valid || !user) {
+      throw new OAuthException(
+        'invalid_grant',
+        'Invalid or expired authorization code',
+      );
+    }
+
+    // claim the code atomically so it can't be redeemed twice
+    const claimed = await this.prisma.oAuthAuthorizationCode.updateMany({
+      where: { id: stored.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      throw new OAuthException(
+        'invalid_grant',
+        'Invalid or expired authorization code',
+      );
+    }
+
+    const scopes = stored.scope.split(' ').filter(Boolean);
+    const { token, tokenId } = await this.jwtService.generateToken(
+      user.id,
+      user.email,
+      user.name ?? undefined,
+      user.role,
+      { scope: stored.scope, client_id: client.clientId },
+    );
+
+    await this.sessionService.createSession(tokenId, {
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      ...metadata,
+    });
+
+    await this.auditService.record({
+      action: AuditAction.LOGIN_SUCCESS,
+      actorId: user.id,
+      targetId: user.id,
+      ip: metadata.ip,
+      userAgent: metadata.userAgent,
+      metadata: { clientId: client.clientId },
+    });
+
+    return {
+      access_token: token,
+      token_type: 'Bearer',
+      scope: stored.scope,
+      ...(scopes.includes('offline_access') && {
+        refresh_token: await this.refreshTokenService.issueToken(
+          user.id,
+          tokenId,
+          { clientId: client.clientId, scope: stored.scope },
+        ),
+      }),
+      ...(scopes.includes('openid') &&
+        this.signsIdTokens && {
+          id_token: await this.issueIdToken(
+            user,
+            client.clientId,
+            scopes,
+            stored.nonce,
+          ),
+        }),
+    };
+  }
+
+  private async refresh(
+    client: OAuthClient,
+    request: TokenRequestDto,
+    metadata: SessionMetadata,
+  ): Promise<OAuthTokenResponse> {
+    if (!request.refresh_token) {
+      throw new OAuthException('invalid_request', 'refresh_token is required');
+    }
+
+    let tokens: { accessToken: string; refreshToken: string };
+    try {
+      tokens = await this.refreshTokenService.rotate(
+        request.refresh_token,
+        metadata,
+        client.clientId,
+      );
+    } catch {
+      throw new OAuthException('invalid_grant', 'Invalid refresh token');
+    }
+
+    const payload = await this.jwtService.verifyToken(tokens.accessToken);
+    return {
+      access_token: tokens.accessToken,
+      token_type: 'Bearer',
+      scope: payload?.scope ?? '',
+      refresh_token: tokens.refreshToken,
+    };
+  }
+
+  private async clientCredentials(
+    client: OAuthClient,
+    request: TokenRequestDto,
+  ): Promise<OAuthTokenResponse> {
+    const requested = this.parseScope(request.scope);
+    // with no scope asked for, grant everything that doesn't need a user
+    const scopes = requested.length
+      ? requested
+      : client.scopes.filter((scope) => !USER_SCOPES.includes(scope));
+
+    if (scopes.some((scope) => USER_SCOPES.includes(scope))) {
+      throw new OAuthException(
+        'invalid_scope',
+        'User scopes are not available to client_credentials',
+      );
+    }
+    this.assertScopesAllowed(client, scopes);
+
+    const scope = scopes.join(' ');
+    return {
+      access_token: await this.jwtService.generateClientToken(
+        client.clientId,
+        scope,
+      ),
+      token_type: 'Bearer',
+      scope,
+    };
+  }
+
+  private assertScopesAllowed(client: OAuthClient, scopes: string[]) {
+    const unknown = scopes.filter((scope) => !client.scopes.includes(scope));
+    if (unknown.length) {
+      throw new OAuthException(
+        'invalid_scope',
+        `Scope not allowed for this client: ${unknown.join(' ')}`,
+      );
+    }
+  }
+
+  // claims beyond `sub` follow the granted scopes
+  private profileClaims(user: User, scopes: string[]) {
+    return {
+      sub: user.id,
+      ...(scopes.includes('email') && {
+        email: user.email,
+        email_verified: user.emailVerified,
+      }),
+      ...(scopes.includes('profile') && { name: user.name }),
+    };
+  }
+
+  private issueIdToken(
+    user: User,
+    clientId: string,
+    scopes: string[],
+    nonce: string | null,
+  ) {
+    return this.jwtService.signPurposeToken(
+      {
+        iss: this.issuer,
+        ...this.profileClaims(user, scopes),
+        ...(nonce && { nonce }),
+      },
+      clientId,
+      this.idTokenTTL,
+    );
+  }
+
+  /**
+   * OIDC userinfo for an access token issued through /oauth/token
+   * @throws OAuthException insufficient_scope unless `openid` was granted
+   */
+  async userInfo(authUser: AuthenticatedUser) {
+    const scopes = this.parseScope(authUser.scope);
+    if (!authUser.clientId || !scopes.includes('openid')) {
+      throw new OAuthException(
+        'insufficient_scope',
+        'The access token was not granted the openid scope',
+        HttpStatus.FORBIDDEN,
+      );
+    }
+
+    const user = await this.userLookup.findById(authUser.userId);
+    if (!user) {
+      throw new OAuthException(
+        'invalid_token',
+        'The access token belongs to an unknown user',
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+    return this.profileClaims(user, scopes);
+  }
+
+  getDiscoveryDocument() {
+    return {
+      issuer: this.issuer,
+      authorization_endpoint: `${this.issuer}/oauth/authorize`,
+      token_endpoint: `${this.issuer}/oauth/token`,
+      userinfo_endpoint: `${this.issuer}/oauth/userinfo`,
+      jwks_uri: `${this.issuer}/.well-known/jwks.json`,
+      response_types_supported: ['code'],
+      grant_types_supported: OAUTH_GRANT_TYPES,
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: this.signsIdTokens
+        ? [this.jwtKeyService.algorithm]
+        : [],
+      scopes_supported: this.signsIdTokens
+        ? USER_SCOPES
+        : USER_SCOPES.filter((scope) => scope !== 'openid'),
+      token_endpoint_auth_methods_supported: [
+        'client_secret_basic',
+        'client_secret_post',
+        'none',
+      ],
+      code_challenge_methods_supported: ['S256'],
+      claims_supported: [
+        'sub',
+        'iss',
+        'nonce',
+        'email',
+        'email_verified',
+        'name',
+      ],
+    };
+  }
+}
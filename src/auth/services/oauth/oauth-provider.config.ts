@@ -0,0 +1,76 @@
+export interface OAuthProviderConfig {
+  name: string;
+  // oidc providers are discovered from the issuer and return an ID token;
+  // plain oauth2 providers (GitHub) need explicit endpoints
+  type: 'oidc' | 'oauth2';
+  issuer?: string;
+  authorizationUrl?: string;
+  tokenUrl?: string;
+  userInfoUrl?: string;
+  // GitHub only hands out verified addresses from a separate endpoint
+  emailsUrl?: string;
+  clientId: string;
+  clientSecret?: string;
+  scopes: string[];
+}
+
+const PRESETS: Record<string, Partial<OAuthProviderConfig>> = {
+  google: { type: 'oidc', issuer: 'https://accounts.google.com' },
+  github: {
+    type: 'oauth2',
+    authorizationUrl: 'https://github.com/login/oauth/authorize',
+    tokenUrl: 'https://github.com/login/oauth/access_token',
+    userInfoUrl: 'https://api.github.com/user',
+    emailsUrl: 'https://api.github.com/user/emails',
+    scopes: ['read:user', 'user:email'],
+  },
+};
+
+// providers that need no endpoint configuration of their own
+export const isOAuthPreset = (name: string) => name.toLowerCase() in PRESETS;
+
+// e.g. "google,github,mock" becomes ['google', 'github', 'mock']
+export const parseOAuthProviderNames = (providers?: string) =>
+  (providers ?? '')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+/**
+ * Read the providers listed in OAUTH_PROVIDERS (e.g. "google,github,mock").
+ * Each one is configured with OAUTH_<NAME>_CLIENT_ID, _CLIENT_SECRET and,
+ * unless it is a preset, _ISSUER or _AUTHORIZATION_URL/_TOKEN_URL/_USERINFO_URL.
+ */
+export function loadOAuthProviders(
+  env: Record<string, string | undefined>,
+): OAuthProviderConfig[] {
+  const providers: OAuthProviderConfig[] = [];
+
+  for (const name of parseOAuthProviderNames(env.OAUTH_PROVIDERS)) {
+    const get = (key: string) =>
+      env[`OAUTH_${name.toUpperCase()}_${key}`] || undefined;
+    const preset = PRESETS[name] ?? {};
+
+    const clientId = get('CLIENT_ID');
+    if (!clientId) {
+      throw new Error(`OAUTH_${name.toUpperCase()}_CLIENT_ID is not defined`);
+    }
+
+    const issuer = get('ISSUER') ?? preset.issuer;
+    providers.push({
+      ...preset,
+      name,
+      type: preset.type ?? (issuer ? 'oidc' : 'oauth2'),
+      issuer,
+      authorizationUrl: get('AUTHORIZATION_URL') ?? preset.authorizationUrl,
+      tokenUrl: get('TOKEN_URL') ?? preset.tokenUrl,
+      userInfoUrl: get('USERINFO_URL') ?? preset.userInfoUrl,
+      clientId,
+      clientSecret: get('CLIENT_SECRET'),
+      scopes: get('SCOPES')?.split(' ') ??
+        preset.scopes ?? ['openid', 'email', 'profile'],
+    });
+  }
+
+  return providers;
+}
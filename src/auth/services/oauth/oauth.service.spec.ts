@@ -0,0 +1,138 @@
+import { ConflictException, UnauthorizedException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from 'prisma/prisma.service';
+import { AuditService } from 'src/audit/audit.service';
+import { TooManyRequestsException } from 'src/common/exceptions/too-many-requests.exception';
+import { PasswordService } from 'src/common/services/password.service';
+import { RedisService } from 'src/common/services/redis.service';
+import oauthConfig from 'src/config/oauth.config';
+import { LoginService } from '../login/login.service';
+import { MfaService } from '../mfa/mfa.service';
+import { USER_LOOKUP } from '../../user-lookup/user-lookup.interface';
+import { loadOAuthProviders } from './oauth-provider.config';
+import { OAuthService } from './oauth.service';
+import { OidcClientService } from './oidc-client.service';
+
+describe('OAuthService', () => {
+  let service: OAuthService;
+  const store = new Map<string, string>();
+  const prisma = {
+    userIdentity: { findUnique: jest.fn(), create: jest.fn() },
+  };
+  const userLookup = { findById: jest.fn(), findByEmail: jest.fn() };
+  const loginService = { completeLogin: jest.fn() };
+  const profile = {
+    subject: 'external-1',
+    email: 'jane@example.com',
+    emailVerified: true,
+    name: 'Jane',
+  };
+  const localUser = {
+    id: 'user-1',
+    email: 'jane@example.com',
+    emailVerified: true,
+    isActive: true,
+    lockedUntil: null as Date | null,
+    mfaEnabled: false,
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    store.clear();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OAuthService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: RedisService,
+          useValue: {
+            set: (key: string, value: string) => store.set(key, value),
+            get: (key: string) => Promise.resolve(store.get(key) ?? null),
+            del: (key: string) => store.delete(key),
+          },
+        },
+        {
+          provide: OidcClientService,
+          useValue: {
+            buildAuthorizationUrl: (
+              _provider: unknown,
+              { state }: { state: string },
+            ) => Promise.resolve(`https://idp.example.com/auth?state=${state}`),
+            fetchProfile: () => Promise.resolve(profile),
+          },
+        },
+        { provide: LoginService, useValue: loginService },
+        { provide: MfaService, useValue: {} },
+        {
+          provide: PasswordService,
+          useValue: { hashPassword: () => Promise.resolve('hash') },
+        },
+        {
+          provide: oauthConfig.KEY,
+          useValue: {
+            ...oauthConfig(),
+            providers: loadOAuthProviders({
+              OAUTH_PROVIDERS: 'google',
+              OAUTH_GOOGLE_CLIENT_ID: 'client-id',
+            }),
+          },
+        },
+        { provide: AuditService, useValue: { record: jest.fn() } },
+        { provide: USER_LOOKUP, useValue: userLookup },
+      ],
+    }).compile();
+
+    service = module.get<OAuthService>(OAuthService);
+  });
+
+  const start = async () => {
+    const { url, binding } = await service.startAuthorization('google');
+    return { state: new URL(url).searchParams.get('state') ?? '', binding };
+  };
+
+  it('only finishes the flow in the browser that started it', async () => {
+    const { state, binding } = await start();
+
+    await expect(
+      service.handleCallback('google', 'code', state, 'another-browser'),
+    ).rejects.toThrow(UnauthorizedException);
+
+    const again = await start();
+    prisma.userIdentity.findUnique.mockResolvedValue({ userId: 'user-1' });
+    userLookup.findById.mockResolvedValue(localUser);
+    loginService.completeLogin.mockResolvedValue({ accessToken: 'token' });
+    await expect(
+      service.handleCallback('google', 'code', again.state, again.binding),
+    ).resolves.toEqual({ accessToken: 'token' });
+    expect(binding).not.toBe(again.binding);
+  });
+
+  it('does not link to a local account whose email is unverified', async () => {
+    const { state, binding } = await start();
+    prisma.userIdentity.findUnique.mockResolvedValue(null);
+    userLookup.findByEmail.mockResolvedValue({
+      ...localUser,
+      emailVerified: false,
+    });
+
+    await expect(
+      service.handleCallback('google', 'code', state, binding),
+    ).rejects.toThrow(ConflictException);
+    expect(prisma.userIdentity.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses a locked account', async () => {
+    const { state, binding } = await start();
+    prisma.userIdentity.findUnique.mockResolvedValue({ userId: 'user-1' });
+    userLookup.findById.mockResolvedValue({
+      ...localUser,
+      lockedUntil: new Date(Date.now() + 60_000),
+    });
+
+    await expect(
+      service.handleCallback('google', 'code', state, binding),
+    ).rejects.toThrow(TooManyRequestsException);
+    expect(loginService.completeLogin).not.toHaveBeenCalled();
+  });
+});
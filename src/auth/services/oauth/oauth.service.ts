@@ -0,0 +1,315 @@
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { AuditAction, User } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from 'prisma/prisma.service';
+import { AuditService } from 'src/audit/audit.service';
+import { PasswordService } from 'src/common/services/password.service';
+import { TooManyRequestsException } from 'src/common/exceptions/too-many-requests.exception';
+import { RedisService } from 'src/common/services/redis.service';
+import { LoginService } from '../login/login.service';
+import { MfaService } from '../mfa/mfa.service';
+import { SessionMetadata } from '../session/session.service';
+import { OAuthProviderConfig } from './oauth-provider.config';
+import oauthConfig from 'src/config/oauth.config';
+import { ExternalProfile, OidcClientService } from './oidc-client.service';
+import { USER_LOOKUP } from '../../user-lookup/user-lookup.interface';
+import type { UserLookup } from '../../user-lookup/user-lookup.interface';
+
+// kept in redis between the redirect to the provider and the callback
+interface OAuthState {
+  provider: string;
+  nonce: string;
+  codeVerifier: string;
+  // hash of the cookie given to the browser that started the flow
+  bindingHash: string;
+  // set when a logged-in user is linking another account
+  linkUserId?: string;
+}
+
+// holds the browser binding between startAuthorization and the callback
+export const OAUTH_BINDING_COOKIE = 'oauth_binding';
+
+export interface AuthorizationStart {
+  url: string;
+  // value for the OAUTH_BINDING_COOKIE cookie
+  binding: string;
+}
+
+@Injectable()
+export class OAuthService {
+  private readonly statePrefix = 'oauth_state:';
+  private readonly stateTTL = 600;
+  private readonly providers: Map<string, OAuthProviderConfig>;
+  private readonly redirectBaseUrl: string;
+
+  constructor(
+    private prisma: PrismaService,
+    private redisService: RedisService,
+    private oidcClientService: OidcClientService,
+    private loginService: LoginService,
+    private mfaService: MfaService,
+    private passwordService: PasswordService,
+    @Inject(oauthConfig.KEY) config: ConfigType<typeof oauthConfig>,
+    private auditService: AuditService,
+    @Inject(USER_LOOKUP) private userLookup: UserLookup,
+  ) {
+    this.providers = new Map(
+      config.providers.map((provider) => [provider.name, provider]),
+    );
+    this.redirectBaseUrl = config.redirectBaseUrl;
+  }
+
+  private hash(value: string): string {
+    return createHash('sha256').update(value).digest('hex');
+  }
+
+  // the cookie only goes back to the callback, and over https when it does
+  getBindingCookieOptions() {
+    const url = new URL(this.redirectBaseUrl);
+    return {
+      httpOnly: true,
+      // sent on the top-level redirect back from the provider
+      sameSite: 'lax' as const,
+      secure: url.protocol === 'https:',
+      path: url.pathname,
+      maxAge: this.stateTTL * 1000,
+    };
+  }
+
+  getProviderNames(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  /**
+   * Start an authorization-code + PKCE flow
+   * @param linkUserId - Logged-in user to link the account to, instead of logging in
+   * @returns URL of the provider's consent page, and a binding the browser
+   * must send back to the callback so a stolen state can't be finished
+   * elsewhere
+   */
+  async startAuthorization(
+    providerName: string,
+    linkUserId?: string,
+  ): Promise<AuthorizationStart> {
+    const provider = this.getProvider(providerName);
+    const state = randomBytes(32).toString('base64url');
+    const codeVerifier = randomBytes(32).toString('base64url');
+    const binding = randomBytes(32).toString('base64url');
+    const oauthState: OAuthState = {
+      provider: provider.name,
+      nonce: randomBytes(16).toString('base64url'),
+      codeVerifier,
+      bindingHash: this.hash(binding),
+      linkUserId,
+    };
+
+    await this.redisService.set(
+      `${this.statePrefix}${state}`,
+      JSON.stringify(oauthState),
+      this.stateTTL,
+    );
+
+    const url = await this.oidcClientService.buildAuthorizationUrl(provider, {
+      state,
+      nonce: oauthState.nonce,
+      codeChallenge: createHash('sha256')
+        .update(codeVerifier)
+        .digest('base64url'),
+      redirectUri: this.getRedirectUri(provider),
+    });
+    return { url, binding };
+  }
+
+  /**
+   * Finish the flow started by startAuthorization: log the user in the same
+   * way a password login does, or link the account for a link request
+   * @param binding - The OAUTH_BINDING_COOKIE sent with the callback
+   */
+  async handleCallback(
+    providerName: string,
+    code: string,
+    state: string,
+    binding: string | undefined,
+    metadata: SessionMetadata = {},
+  ) {
+    const provider = this.getProvider(providerName);
+    const key = `${this.statePrefix}${state}`;
+    const value = await this.redisService.get(key);
+    // states are single-use
+    await this.redisService.del(key);
+    if (!value) {
+      throw new UnauthorizedException('Invalid or expired OAuth state');
+    }
+
+    const oauthState = JSON.parse(value) as OAuthState;
+    if (
+      oauthState.provider !== provider.name ||
+      !binding ||
+      this.hash(binding) !== oauthState.bindingHash
+    ) {
+      throw new UnauthorizedException('Invalid or expired OAuth state');
+    }
+
+    const profile = await this.oidcClientService.fetchProfile(
+      provider,
+      code,
+      oauthState.codeVerifier,
+      this.getRedirectUri(provider),
+      oauthState.nonce,
+    );
+
+    if (oauthState.linkUserId) {
+      await this.link(oauthState.linkUserId, provider.name, profile);
+      return { linked: true, provider: provider.name };
+    }
+
+    const user = await this.findOrCreateUser(provider.name, profile);
+    // same order of checks as a password login
+    if (user.lockedUntil && user.lockedUntil.getTime() > Date.now()) {
+      throw new TooManyRequestsException(
+        Math.ceil((user.lockedUntil.getTime() - Date.now()) / 1000),
+        'Account is temporarily locked',
+      );
+    }
+    if (!user.isActive) {
+      throw new UnauthorizedException('Account is Inactive');
+    }
+    if (user.mfaEnabled) {
+      return this.mfaService.createChallenge(user, metadata);
+    }
+    return this.loginService.completeLogin(user, metadata);
+  }
+
+  // an existing identity wins; otherwise match or create by verified email
+  private async findOrCreateUser(
+    provider: string,
+    profile: ExternalProfile,
+  ): Promise<User> {
+    const identity = await this.prisma.userIdentity.findUnique({
+      where: {
+        provider_subject: { provider, subject: profile.subject },
+      },
+    });
+    const linkedUser =
+      identity && (await this.userLookup.findById(identity.userId));
+    if (linkedUser) {
+      return linkedUser;
+    }
+
+    // unverified addresses could be used to take over someone's account
+    if (!profile.email || !profile.emailVerified) {
+      throw new UnauthorizedException(
+        'The provider did not supply a verified email address',
+      );
+    }
+
+    let user = await this.userLookup.findByEmail(profile.email);
+    // whoever registered an unverified address may not own it, so only the
+    // password holder can attach the provider, via the link flow
+    if (user && !user.emailVerified) {
+      throw new ConflictException(
+        `An account with this email already exists; sign in with its password and link ${provider} from your profile`,
+      );
+    }
+    if (!user) {
+      user = await this.userLookup.create({
+        email: profile.email,
+        name: profile.name,
+        // nobody knows this password; the user can set one via reset
+        password: await this.passwordService.hashPassword(
+          randomBytes(32).toString('hex'),
+        ),
+        emailVerified: true,
+        emailVerifiedAt: new Date(),
+      });
+    }
+
+    await this.link(user.id, provider, profile);
+    return user;
+  }
+
+  private async link(
+    userId: string,
+    provider: string,
+    profile: ExternalProfile,
+  ) {
+    const existing = await this.prisma.userIdentity.findUnique({
+      where: {
+        provider_subject: { provider, subject: profile.subject },
+      },
+    });
+    if (existing && existing.userId !== userId) {
+      throw new ConflictException(
+        'This account is already linked to another user',
+      );
+    }
+    if (existing) {
+      return;
+    }
+
+    const linked = await this.prisma.userIdentity.findUnique({
+      where: { userId_provider: { userId, provider } },
+    });
+    if (linked) {
+      throw new ConflictException(`A ${provider} account is already linked`);
+    }
+
+    await this.prisma.userIdentity.create({
+      data: {
+        provider,
+        subject: profile.subject,
+        email: profile.email,
+        userId,
+      },
+    });
+    await this.auditService.record({
+      action: AuditAction.IDENTITY_LINKED,
+      actorId: userId,
+      targetId: userId,
+      metadata: { provider },
+    });
+  }
+
+  async listIdentities(userId: string) {
+    return this.prisma.userIdentity.findMany({
+      where: { userId },
+      select: { provider: true, email: true, createdAt: true },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async unlink(userId: string, provider: string): Promise<void> {
+    const result = await this.prisma.userIdentity.deleteMany({
+      where: { userId, provider },
+    });
+    if (result.count === 0) {
+      throw new NotFoundException(`No ${provider} account is linked`);
+    }
+
+    await this.auditService.record({
+      action: AuditAction.IDENTITY_UNLINKED,
+      actorId: userId,
+      targetId: userId,
+      metadata: { provider },
+    });
+  }
+
+  private getProvider(name: string): OAuthProviderConfig {
+    const provider = this.providers.get(name.toLowerCase());
+    if (!provider) {
+      throw new NotFoundException(`Unknown OAuth provider ${name}`);
+    }
+    return provider;
+  }
+
+  private getRedirectUri(provider: OAuthProviderConfig): string {
+    return `${this.redirectBaseUrl}/${provider.name}/callback`;
+  }
+}
@@ -0,0 +1,162 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { generateKeyPairSync } from 'crypto';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { OAuthProviderConfig } from './oauth-provider.config';
+import { OidcClientService } from './oidc-client.service';
+
+// tiny in-process OIDC issuer: discovery, JWKS and a token endpoint
+describe('OidcClientService', () => {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+  });
+  const jwtService = new JwtService();
+  let server: Server;
+  let issuer: string;
+  let provider: OAuthProviderConfig;
+  let tokenRequest: URLSearchParams;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const send = (body: unknown) => {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(body));
+      };
+
+      if (req.url === '/.well-known/openid-configuration') {
+        return send({
+          issuer,
+          authorization_endpoint: `${issuer}/authorize`,
+          token_endpoint: `${issuer}/token`,
+          jwks_uri: `${issuer}/jwks`,
+        });
+      }
+      // plain OAuth 2.0 userinfo, with or without the user's id
+      if (req.url === '/userinfo') {
+        return send({ id: 42, email: 'jane@example.com', name: 'Jane' });
+      }
+      if (req.url === '/userinfo-anonymous') {
+        return send({ email: 'jane@example.com', name: 'Jane' });
+      }
+      if (req.url === '/jwks') {
+        return send({
+          keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'key-1' }],
+        });
+      }
+
+      let body = '';
+      req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+      req.on('end', () => {
+        tokenRequest = new URLSearchParams(body);
+        const idToken = jwtService.sign(
+          {
+            sub: 'external-1',
+            email: 'jane@example.com',
+            email_verified: true,
+            name: 'Jane',
+            nonce: 'expected-nonce',
+          },
+          {
+            privateKey: privateKey.export({ format: 'pem', type: 'pkcs8' }),
+            algorithm: 'RS256',
+            keyid: 'key-1',
+            issuer,
+            audience: 'client-1',
+            expiresIn: 60,
+          },
+        );
+        send({ access_token: 'access', id_token: idToken });
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    provider = {
+      name: 'mock',
+      type: 'oidc',
+      issuer,
+      clientId: 'client-1',
+      scopes: ['openid', 'email'],
+    };
+  });
+
+  afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+  it('builds a PKCE authorization URL from discovery', async () => {
+    const url = new URL(
+      await new OidcClientService(jwtService).buildAuthorizationUrl(provider, {
+        state: 'state-1',
+        nonce: 'nonce-1',
+        codeChallenge: 'challenge',
+        redirectUri: 'http://localhost/callback',
+      }),
+    );
+
+    expect(url.origin + url.pathname).toBe(`${issuer}/authorize`);
+    expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(url.searchParams.get('nonce')).toBe('nonce-1');
+  });
+
+  it('exchanges the code and verifies the ID token', async () => {
+    const profile = await new OidcClientService(jwtService).fetchProfile(
+      provider,
+      'code-1',
+      'verifier-1',
+      'http://localhost/callback',
+      'expected-nonce',
+    );
+
+    expect(tokenRequest.get('code_verifier')).toBe('verifier-1');
+    expect(profile).toEqual({
+      subject: 'external-1',
+      email: 'jane@example.com',
+      emailVerified: true,
+      name: 'Jane',
+    });
+  });
+
+  it('rejects an ID token with another nonce', async () => {
+    await expect(
+      new OidcClientService(jwtService).fetchProfile(
+        provider,
+        'code-1',
+        'verifier-1',
+        'http://localhost/callback',
+        'other-nonce',
+      ),
+    ).rejects.toThrow('ID token nonce mismatch');
+  });
+
+  describe('without OpenID Connect', () => {
+    const oauth2 = (userInfoPath: string): OAuthProviderConfig => ({
+      name: 'plain',
+      type: 'oauth2',
+      clientId: 'client-1',
+      authorizationUrl: `${issuer}/authorize`,
+      tokenUrl: `${issuer}/token`,
+      userInfoUrl: `${issuer}${userInfoPath}`,
+      scopes: ['user'],
+    });
+    const fetchProfile = (userInfoPath: string) =>
+      new OidcClientService(jwtService).fetchProfile(
+        oauth2(userInfoPath),
+        'code-1',
+        'verifier-1',
+        'http://localhost/callback',
+        'expected-nonce',
+      );
+
+    it('identifies the user by the id from userinfo', async () => {
+      await expect(fetchProfile('/userinfo')).resolves.toMatchObject({
+        subject: '42',
+        email: 'jane@example.com',
+      });
+    });
+
+    it('rejects userinfo without an id', async () => {
+      await expect(fetchProfile('/userinfo-anonymous')).rejects.toThrow(
+        new UnauthorizedException('Provider did not return a user id'),
+      );
+    });
+  });
+});
@@ -0,0 +1,283 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { createPublicKey, JsonWebKey } from 'crypto';
+import { OAuthProviderConfig } from './oauth-provider.config';
+
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+  jwks_uri: string;
+}
+
+interface TokenResponse {
+  access_token: string;
+  id_token?: string;
+  token_type?: string;
+}
+
+interface IdTokenClaims {
+  sub: string;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+}
+
+// what we need to know about the user at the provider
+export interface ExternalProfile {
+  subject: string;
+  email?: string;
+  emailVerified: boolean;
+  name?: string;
+}
+
+export interface AuthorizationRequest {
+  state: string;
+  nonce: string;
+  codeChallenge: string;
+  redirectUri: string;
+}
+
+const ID_TOKEN_ALGORITHMS = ['RS256', 'ES256', 'PS256'] as const;
+
+/**
+ * Minimal authorization-code + PKCE client for OIDC and plain OAuth2
+ * providers. Discovery documents and JWKS are cached per issuer.
+ */
+@Injectable()
+export class OidcClientService {
+  private readonly discovery = new Map<string, Promise<DiscoveryDocument>>();
+  private readonly jwks = new Map<string, JsonWebKey[]>();
+  // a provider that hangs must not hold the callback request open
+  private readonly requestTimeout = 10_000;
+
+  constructor(private jwtService: JwtService) {}
+
+  async buildAuthorizationUrl(
+    provider: OAuthProviderConfig,
+    request: AuthorizationRequest,
+  ): Promise<string> {
+    const endpoint =
+      provider.type === 'oidc'
+        ? (await this.discover(provider)).authorization_endpoint
+        : (provider.authorizationUrl as string);
+
+    const url = new URL(endpoint);
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: provider.clientId,
+      redirect_uri: request.redirectUri,
+      scope: provider.scopes.join(' '),
+      state: request.state,
+      code_challenge: request.codeChallenge,
+      code_challenge_method: 'S256',
+      ...(provider.type === 'oidc' && { nonce: request.nonce }),
+    }).toString();
+    return url.toString();
+  }
+
+  /**
+   * Exchange an authorization code and work out who the user is
+   * @param nonce - Nonce sent with the authorization request
+   * @throws UnauthorizedException when the provider rejects the code or the
+   * ID token doesn't check out
+   */
+  async fetchProfile(
+    provider: OAuthProviderConfig,
+    code: string,
+    codeVerifier: string,
+    redirectUri: string,
+    nonce: string,
+  ): Promise<ExternalProfile> {
+    const tokenUrl =
+      provider.type === 'oidc'
+        ? (await this.discover(provider)).token_endpoint
+        : (provider.tokenUrl as string);
+
+    const tokens = await this.request<TokenResponse>(tokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: redirectUri,
+        client_id: provider.clientId,
+        code_verifier: codeVerifier,
+        ...(provider.clientSecret && { client_secret: provider.clientSecret }),
+      }).toString(),
+    });
+
+    return provider.type === 'oidc'
+      ? this.profileFromIdToken(provider, tokens, nonce)
+      : this.profileFromUserInfo(provider, tokens.access_token);
+  }
+
+  private async profileFromIdToken(
+    provider: OAuthProviderConfig,
+    tokens: TokenResponse,
+    nonce: string,
+  ): Promise<ExternalProfile> {
+    if (!tokens.id_token) {
+      throw new UnauthorizedException('Provider did not return an ID token');
+    }
+
+    const document = await this.discover(provider);
+    const claims = await this.verifyIdToken(
+      provider,
+      document,
+      tokens.id_token,
+    );
+    if (claims.nonce !== nonce) {
+      throw new UnauthorizedException('ID token nonce mismatch');
+    }
+    if (!claims.sub) {
+      throw new UnauthorizedException('ID token has no subject');
+    }
+
+    let { email, email_verified: emailVerified, name } = claims;
+    // some providers keep the email out of the ID token
+    if (!email && document.userinfo_endpoint) {
+      const info = await this.request<IdTokenClaims>(
+        document.userinfo_endpoint,
+        { headers: { Authorization: `Bearer ${tokens.access_token}` } },
+      );
+      if (info.sub === claims.sub) {
+        ({ email, email_verified: emailVerified, name = name } = info);
+      }
+    }
+
+    return {
+      subject: claims.sub,
+      email,
+      emailVerified: emailVerified === true || emailVerified === 'true',
+      name,
+    };
+  }
+
+  private async verifyIdToken(
+    provider: OAuthProviderConfig,
+    document: DiscoveryDocument,
+    idToken: string,
+  ): Promise<IdTokenClaims> {
+    const header = this.jwtService.decode<{
+      header?: { kid?: string; alg?: string };
+    }>(idToken, { complete: true })?.header;
+    const algorithm = ID_TOKEN_ALGORITHMS.find((alg) => alg === header?.alg);
+    if (!header || !algorithm) {
+      throw new UnauthorizedException('Unsupported ID token');
+    }
+
+    const jwk = await this.findKey(document.jwks_uri, header.kid);
+    try {
+      return await this.jwtService.verifyAsync<IdTokenClaims>(idToken, {
+        publicKey: createPublicKey({ key: jwk, format: 'jwk' })
+          .export({ format: 'pem', type: 'spki' })
+          .toString(),
+        algorithms: [algorithm],
+        audience: provider.clientId,
+        issuer: document.issuer,
+      });
+    } catch {
+      throw new UnauthorizedException('Invalid ID token');
+    }
+  }
+
+  // refetches the key set once when the kid is unknown, to follow rotations
+  private async findKey(jwksUri: string, kid?: string): Promise<JsonWebKey> {
+    const match = (keys: JsonWebKey[]) =>
+      keys.find((key) => !kid || key.kid === kid);
+
+    let key = match(this.jwks.get(jwksUri) ?? []);
+    if (!key) {
+      const { keys } = await this.request<{ keys: JsonWebKey[] }>(jwksUri);
+      this.jwks.set(jwksUri, keys);
+      key = match(keys);
+    }
+    if (!key) {
+      throw new UnauthorizedException('Unknown ID token signing key');
+    }
+    return key;
+  }
+
+  private async profileFromUserInfo(
+    provider: OAuthProviderConfig,
+    accessToken: string,
+  ): Promise<ExternalProfile> {
+    const headers = {
+      Authorization: `Bearer ${accessToken}`,
+      Accept: 'application/json',
+    };
+    const info = await this.request<{
+      id?: number | string;
+      sub?: string;
+      email?: string;
+      email_verified?: boolean;
+      name?: string;
+    }>(provider.userInfoUrl as string, { headers });
+
+    let email = info.email;
+    let emailVerified = info.email_verified === true;
+    if (provider.emailsUrl) {
+      const emails = await this.request<
+        { email: string; primary: boolean; verified: boolean }[]
+      >(provider.emailsUrl, { headers });
+      const primary = emails.find((entry) => entry.primary && entry.verified);
+      email = primary?.email;
+      emailVerified = !!primary;
+    }
+
+    // without an id every such login would map to the same linked identity
+    const subject = String(info.sub ?? info.id ?? '').trim();
+    if (!subject) {
+      throw new UnauthorizedException('Provider did not return a user id');
+    }
+
+    return {
+      subject,
+      email,
+      emailVerified,
+      name: info.name,
+    };
+  }
+
+  private discover(provider: OAuthProviderConfig): Promise<DiscoveryDocument> {
+    const issuer = (provider.issuer as string).replace(/\/$/, '');
+    let document = this.discovery.get(issuer);
+    if (!document) {
+      document = this.request<DiscoveryDocument>(
+        `${issuer}/.well-known/openid-configuration`,
+      );
+      // don't cache failures, the issuer may just be starting up
+      document.catch(() => this.discovery.delete(issuer));
+      this.discovery.set(issuer, document);
+    }
+    return document;
+  }
+
+  private async request<T>(url: string, init: RequestInit = {}): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        ...init,
+        headers: {
+          Accept: 'application/json',
+          'User-Agent': 'postgres-auth',
+          ...init.headers,
+        },
+        signal: AbortSignal.timeout(this.requestTimeout),
+      });
+    } catch {
+      throw new UnauthorizedException(
+        'OAuth provider request failed (no response)',
+      );
+    }
+    if (!response.ok) {
+      throw new UnauthorizedException(
+        `OAuth provider request failed (${response.status})`,
+      );
+    }
+    return (await response.json()) as T;
+  }
+}
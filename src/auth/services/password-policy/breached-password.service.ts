@@ -0,0 +1,86 @@
+import { Inject, Injectable } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, statSync } from 'fs';
+import { join } from 'path';
+import passwordConfig from 'src/config/password.config';
+
+/**
+ * Offline check against a Have I Been Pwned style SHA-1 list.
+ *
+ * PASSWORD_BREACH_LIST_PATH may point at a directory of range files named
+ * after the 5-character hash prefix (`<PREFIX>.txt`, lines `SUFFIX:COUNT`),
+ * as produced by the HIBP downloader, so only the matching range is read.
+ * It may also point at a single file of `HASH:COUNT` lines, which is loaded
+ * once and indexed by prefix the same way. Without it the check is off.
+ */
+@Injectable()
+export class BreachedPasswordService {
+  private readonly path?: string;
+  private readonly isDirectory: boolean;
+  private ranges?: Map<string, Set<string>>;
+
+  constructor(
+    @Inject(passwordConfig.KEY) config: ConfigType<typeof passwordConfig>,
+  ) {
+    this.path = config.breachListPath;
+    // checked at boot by the env schema; never run without a configured list
+    if (this.path && !existsSync(this.path)) {
+      throw new Error(`Breach list ${this.path} not found`);
+    }
+    this.isDirectory = !!this.path && statSync(this.path).isDirectory();
+  }
+
+  isEnabled(): boolean {
+    return !!this.path;
+  }
+
+  isBreached(password: string): boolean {
+    if (!this.path) {
+      return false;
+    }
+
+    const hash = createHash('sha1')
+      .update(password)
+      .digest('hex')
+      .toUpperCase();
+    const prefix = hash.slice(0, 5);
+    const suffix = hash.slice(5);
+
+    return this.getRange(prefix).has(suffix);
+  }
+
+  private getRange(prefix: string): Set<string> {
+    if (this.isDirectory) {
+      const file = join(this.path as string, `${prefix}.txt`);
+      return existsSync(file)
+        ? this.parseLines(readFileSync(file, 'utf8'))
+        : new Set();
+    }
+
+    if (!this.ranges) {
+      this.ranges = new Map();
+      for (const line of readFileSync(this.path as string, 'utf8').split(
+        /\r?\n/,
+      )) {
+        const hash = line.split(':')[0].trim().toUpperCase();
+        if (hash.length !== 40) {
+          continue;
+        }
+        const range = this.ranges.get(hash.slice(0, 5)) ?? new Set<string>();
+        range.add(hash.slice(5));
+        this.ranges.set(hash.slice(0, 5), range);
+      }
+    }
+    return this.ranges.get(prefix) ?? new Set();
+  }
+
+  private parseLines(content: string): Set<string> {
+    return new Set(
+      content
+        .split(/\r?\n/)
+        .map((line) => line.split(':')[0].trim().toUpperCase())
+        .filter(Boolean),
+    );
+  }
+}
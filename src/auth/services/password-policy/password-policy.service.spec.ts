@@ -0,0 +1,95 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from 'prisma/prisma.service';
+import { PasswordService } from 'src/common/services/password.service';
+import passwordConfig from 'src/config/password.config';
+import { BreachedPasswordService } from './breached-password.service';
+import { AUTH_MODULE_OPTIONS } from '../../auth.module-definition';
+import { PasswordPolicyService } from './password-policy.service';
+
+describe('PasswordPolicyService', () => {
+  let service: PasswordPolicyService;
+  let findUnique: jest.Mock;
+  const config = passwordConfig();
+  config.policy = {
+    ...config.policy,
+    minLength: 10,
+    requireDigit: true,
+    historySize: 3,
+  };
+
+  beforeEach(async () => {
+    findUnique = jest.fn().mockResolvedValue({
+      password: 'current-hash',
+      passwordHistory: [{ hash: 'old-hash' }],
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PasswordPolicyService,
+        { provide: AUTH_MODULE_OPTIONS, useValue: {} },
+        { provide: PrismaService, useValue: { user: { findUnique } } },
+        {
+          provide: PasswordService,
+          useValue: {
+            comparePassword: jest.fn((password: string, hash: string) =>
+              Promise.resolve(
+                password === 'reused-pass1' && hash === 'old-hash',
+              ),
+            ),
+          },
+        },
+        {
+          provide: BreachedPasswordService,
+          useValue: {
+            isEnabled: () => true,
+            isBreached: (password: string) => password === 'password123',
+          },
+        },
+        { provide: passwordConfig.KEY, useValue: config },
+      ],
+    }).compile();
+
+    service = module.get<PasswordPolicyService>(PasswordPolicyService);
+  });
+
+  const violations = async (
+    ...args: Parameters<PasswordPolicyService['validate']>
+  ) => {
+    try {
+      await service.validate(...args);
+      return [];
+    } catch (error) {
+      expect(error).toBeInstanceOf(BadRequestException);
+      const response = (error as BadRequestException).getResponse() as {
+        message: string[];
+      };
+      return response.message;
+    }
+  };
+
+  it('reports every rule a password breaks', async () => {
+    await expect(violations('short')).resolves.toEqual([
+      'Password must be at least 10 characters long',
+      'Password must contain a digit',
+    ]);
+  });
+
+  it('rejects passwords containing the email or name', async () => {
+    await expect(
+      violations('jane.doe-2024!', { email: 'jane.doe@example.com' }),
+    ).resolves.toEqual(['Password must not contain your email or name']);
+  });
+
+  it('rejects breached and recently used passwords', async () => {
+    await expect(violations('password123')).resolves.toEqual([
+      'Password has appeared in a data breach, please choose another',
+    ]);
+    await expect(
+      violations('reused-pass1', { userId: 'user-1' }),
+    ).resolves.toEqual(['Password must differ from your last 3 passwords']);
+    await expect(
+      violations('brand-new-pass1', { userId: 'user-1' }),
+    ).resolves.toEqual([]);
+  });
+});
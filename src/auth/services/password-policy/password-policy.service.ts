@@ -0,0 +1,179 @@
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { User } from '@prisma/client';
+import { PrismaService } from 'prisma/prisma.service';
+import { PasswordService } from 'src/common/services/password.service';
+import { BreachedPasswordService } from './breached-password.service';
+import { AUTH_MODULE_OPTIONS } from '../../auth.module-definition';
+import type { AuthModuleOptions } from '../../auth-module-options.interface';
+import passwordConfig from 'src/config/password.config';
+
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  // rejects passwords containing the email's local part or the name
+  disallowPersonalInfo: boolean;
+  // how many previous passwords can't be reused; 0 turns the check off
+  historySize: number;
+  breachCheck: boolean;
+}
+
+// whose password is being set; userId is absent for brand new accounts
+export type PasswordOwner = Partial<Pick<User, 'email' | 'name'>> & {
+  userId?: string;
+};
+
+@Injectable()
+export class PasswordPolicyService {
+  private readonly policy: PasswordPolicy;
+
+  constructor(
+    private prisma: PrismaService,
+    private passwordService: PasswordService,
+    private breachedPasswordService: BreachedPasswordService,
+    @Inject(passwordConfig.KEY) config: ConfigType<typeof passwordConfig>,
+    @Inject(AUTH_MODULE_OPTIONS) options: AuthModuleOptions,
+  ) {
+    // options passed to AuthModule.forRoot win over the environment
+    this.policy = {
+      ...config.policy,
+      ...options.passwordPolicy,
+      breachCheck: this.breachedPasswordService.isEnabled(),
+    };
+  }
+
+  getPolicy(): PasswordPolicy {
+    return { ...this.policy };
+  }
+
+  /**
+   * Check a new password against every rule of the policy
+   * @throws BadRequestException listing each rule the password breaks
+   */
+  async validate(password: string, owner: PasswordOwner = {}): Promise<void> {
+    const violations = this.checkRules(password, owner);
+
+    if (this.breachedPasswordService.isBreached(password)) {
+      violations.push(
+        'Password has appeared in a data breach, please choose another',
+      );
+    }
+
+    if (owner.userId && (await this.isReused(owner.userId, password))) {
+      violations.push(
+        `Password must differ from your last ${this.policy.historySize} passwords`,
+      );
+    }
+
+    if (violations.length > 0) {
+      throw new BadRequestException(violations);
+    }
+  }
+
+  private checkRules(password: string, owner: PasswordOwner): string[] {
+    const { policy } = this;
+    const violations: string[] = [];
+
+    if (password.length < policy.minLength) {
+      violations.push(
+        `Password must be at least ${policy.minLength} characters long`,
+      );
+    }
+    if (password.length > policy.maxLength) {
+      violations.push(
+        `Password must be at most ${policy.maxLength} characters long`,
+      );
+    }
+    if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+      violations.push('Password must contain an uppercase letter');
+    }
+    if (policy.requireLowercase && !/[a-z]/.test(password)) {
+      violations.push('Password must contain a lowercase letter');
+    }
+    if (policy.requireDigit && !/\d/.test(password)) {
+      violations.push('Password must contain a digit');
+    }
+    if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+      violations.push('Password must contain a symbol');
+    }
+
+    if (policy.disallowPersonalInfo) {
+      const lowered = password.toLowerCase();
+      const personal = [owner.email?.split('@')[0], owner.name]
+        .filter((value): value is string => !!value && value.length >= 3)
+        .map((value) => value.toLowerCase());
+      if (personal.some((value) => lowered.includes(value))) {
+        violations.push('Password must not contain your email or name');
+      }
+    }
+
+    return violations;
+  }
+
+  // compares against the current password and the stored history
+  private async isReused(userId: string, password: string): Promise<boolean> {
+    if (this.policy.historySize <= 0) {
+      return false;
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        password: true,
+        passwordHistory: {
+          orderBy: { createdAt: 'desc' },
+          take: this.policy.historySize - 1,
+          select: { hash: true },
+        },
+      },
+    });
+    if (!user) {
+      return false;
+    }
+
+    const hashes = [
+      user.password,
+      ...user.passwordHistory.map((entry) => entry.hash),
+    ];
+    for (const hash of hashes) {
+      if (await this.passwordService.comparePassword(password, hash)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Keep the hash being replaced so it can't be picked again
+   * @param previousHash - Hash of the password that is about to change
+   */
+  async recordPreviousPassword(
+    userId: string,
+    previousHash: string,
+  ): Promise<void> {
+    if (this.policy.historySize <= 1) {
+      return;
+    }
+
+    await this.prisma.passwordHistory.create({
+      data: { userId, hash: previousHash },
+    });
+
+    // only the newest entries are ever checked
+    const stale = await this.prisma.passwordHistory.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      skip: this.policy.historySize - 1,
+      select: { id: true },
+    });
+    if (stale.length > 0) {
+      await this.prisma.passwordHistory.deleteMany({
+        where: { id: { in: stale.map((entry) => entry.id) } },
+      });
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { AuditService } from 'src/audit/audit.service';
+import { MailService } from 'src/common/services/mail.service';
+import { PasswordService } from 'src/common/services/password.service';
+import tokensConfig from 'src/config/tokens.config';
+import { LoginThrottleService } from '../login-throttle/login-throttle.service';
+import { PasswordPolicyService } from '../password-policy/password-policy.service';
+import { RefreshTokenService } from '../refresh-token/refresh-token.service';
+import { USER_LOOKUP } from '../../user-lookup/user-lookup.interface';
+import { UserTokenService } from '../user-token/user-token.service';
+import { PasswordResetService } from './password-reset.service';
+
+describe('PasswordResetService', () => {
+  let service: PasswordResetService;
+  const user = {
+    id: 'user-1',
+    email: 'jane@example.com',
+    name: 'Jane',
+    password: 'old-hash',
+    isActive: true,
+    emailVerifiedAt: null,
+  };
+  const userLookup = {
+    findByEmail: jest.fn(),
+    findById: jest.fn(),
+    update: jest.fn(),
+  };
+  const userTokenService = {
+    issue: jest.fn(),
+    peek: jest.fn(),
+    consume: jest.fn(),
+  };
+  const mailService = { send: jest.fn() };
+  const loginThrottleService = { reset: jest.fn() };
+  const refreshTokenService = { revokeAllForUser: jest.fn() };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PasswordResetService,
+        { provide: USER_LOOKUP, useValue: userLookup },
+        { provide: UserTokenService, useValue: userTokenService },
+        {
+          provide: PasswordService,
+          useValue: {
+            hashPassword: (password: string) => `hashed:${password}`,
+          },
+        },
+        { provide: RefreshTokenService, useValue: refreshTokenService },
+        { provide: MailService, useValue: mailService },
+        { provide: tokensConfig.KEY, useValue: tokensConfig() },
+        { provide: AuditService, useValue: { record: jest.fn() } },
+        {
+          provide: PasswordPolicyService,
+          useValue: { validate: jest.fn(), recordPreviousPassword: jest.fn() },
+        },
+        { provide: LoginThrottleService, useValue: loginThrottleService },
+      ],
+    }).compile();
+
+    service = module.get<PasswordResetService>(PasswordResetService);
+  });
+
+  it('answers the same way when the reset mail fails to send', async () => {
+    userLookup.findByEmail.mockResolvedValue(user);
+    userTokenService.issue.mockResolvedValue('raw-token');
+    mailService.send.mockRejectedValue(new Error('SMTP down'));
+
+    await expect(
+      service.requestReset('jane@example.com'),
+    ).resolves.toBeUndefined();
+
+    userLookup.findByEmail.mockResolvedValue(null);
+    await expect(
+      service.requestReset('nobody@example.com'),
+    ).resolves.toBeUndefined();
+  });
+
+  it('verifies the email, lifts any lockout and signs out everywhere', async () => {
+    userTokenService.peek.mockResolvedValue('user-1');
+    userLookup.findById.mockResolvedValue(user);
+
+    await service.resetPassword('raw-token', 'N3w-passphrase!');
+
+    expect(userLookup.update).toHaveBeenCalledWith('user-1', {
+      password: 'hashed:N3w-passphrase!',
+      emailVerified: true,
+      emailVerifiedAt: expect.any(Date) as Date,
+      lockedUntil: null,
+    });
+    expect(loginThrottleService.reset).toHaveBeenCalledWith('jane@example.com');
+    expect(refreshTokenService.revokeAllForUser).toHaveBeenCalledWith('user-1');
+  });
+});
@@ -0,0 +1,129 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { AuditAction, User, UserTokenType } from '@prisma/client';
+import { AuditService } from 'src/audit/audit.service';
+import { MailService } from 'src/common/services/mail.service';
+import { PasswordService } from 'src/common/services/password.service';
+import tokensConfig from 'src/config/tokens.config';
+import { RefreshTokenService } from '../refresh-token/refresh-token.service';
+import { UserTokenService } from '../user-token/user-token.service';
+import { PasswordPolicyService } from '../password-policy/password-policy.service';
+import { LoginThrottleService } from '../login-throttle/login-throttle.service';
+import { USER_LOOKUP } from '../../user-lookup/user-lookup.interface';
+import type { UserLookup } from '../../user-lookup/user-lookup.interface';
+
+@Injectable()
+export class PasswordResetService {
+  private readonly logger = new Logger(PasswordResetService.name);
+  private readonly ttl: number;
+  private readonly resetUrl: string;
+
+  constructor(
+    @Inject(USER_LOOKUP) private userLookup: UserLookup,
+    private userTokenService: UserTokenService,
+    private passwordService: PasswordService,
+    private refreshTokenService: RefreshTokenService,
+    private mailService: MailService,
+    @Inject(tokensConfig.KEY) tokens: ConfigType<typeof tokensConfig>,
+    private auditService: AuditService,
+    private passwordPolicyService: PasswordPolicyService,
+    private loginThrottleService: LoginThrottleService,
+  ) {
+    this.ttl = tokens.passwordReset.ttl;
+    this.resetUrl = tokens.passwordReset.url;
+  }
+
+  // mails a reset link; unknown or inactive accounts are silently ignored
+  async requestReset(email: string): Promise<void> {
+    const user = await this.userLookup.findByEmail(email);
+    if (!user || !user.isActive) {
+      return;
+    }
+
+    // not awaited, so neither the response time nor a mail failure tells
+    // an existing account apart from an unknown one
+    this.sendResetLink(user).catch((error: Error) =>
+      this.logger.error(
+        `Could not send a password reset link: ${error.message}`,
+      ),
+    );
+  }
+
+  // also used by admins to push a reset on an account
+  async sendResetLink(user: User): Promise<void> {
+    const token = await this.userTokenService.issue(
+      user.id,
+      UserTokenType.PASSWORD_RESET,
+      this.ttl,
+    );
+    const link = `${this.resetUrl}?token=${token}`;
+
+    await this.mailService.send({
+      to: user.email,
+      subject: 'Reset your password',
+      text: [
+        `Hi ${user.name ?? user.email},`,
+        '',
+        'Someone asked to reset the password of your account.',
+        'If this was you, open the link below to choose a new one:',
+        link,
+        '',
+        `The link expires in ${Math.round(this.ttl / 60)} minute(s).`,
+        'If you did not ask for this, you can ignore this email.',
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Set a new password from a reset token and sign the user out everywhere
+   * @param token - Raw reset token from the mailed link
+   * @param password - New plaintext password
+   */
+  async resetPassword(token: string, password: string): Promise<void> {
+    // validate before using up the token so a rejected password can be retried
+    const userId = await this.userTokenService.peek(
+      token,
+      UserTokenType.PASSWORD_RESET,
+    );
+    const user = await this.userLookup.findById(userId);
+    if (!user) {
+      throw new BadRequestException('Invalid or expired token');
+    }
+    await this.passwordPolicyService.validate(password, {
+      userId,
+      email: user.email,
+      name: user.name,
+    });
+
+    await this.userTokenService.consume(token, UserTokenType.PASSWORD_RESET);
+
+    // the reset link proves ownership of the mailbox as well (links sent to a
+    // previous address are revoked when the email changes), and a new
+    // password ends any lockout the old one earned
+    await this.userLookup.update(userId, {
+      password: await this.passwordService.hashPassword(password),
+      emailVerified: true,
+      emailVerifiedAt: user.emailVerifiedAt ?? new Date(),
+      lockedUntil: null,
+    });
+    await this.loginThrottleService.reset(user.email);
+    await this.passwordPolicyService.recordPreviousPassword(
+      userId,
+      user.password,
+    );
+
+    await this.refreshTokenService.revokeAllForUser(userId);
+
+    await this.auditService.record({
+      action: AuditAction.PASSWORD_CHANGE,
+      actorId: userId,
+      targetId: userId,
+      metadata: { via: 'reset' },
+    });
+  }
+}
@@ -0,0 +1,19 @@
+// role -> own permissions and the roles it inherits from
+export const BASELINE_ROLES: Record<
+  string,
+  { inherits: string[]; permissions: string[] }
+> = {
+  USER: {
+    inherits: [],
+    permissions: ['profile:read', 'profile:write', 'sessions:manage'],
+  },
+  MODERATOR: { inherits: ['USER'], permissions: ['users:read'] },
+  MANAGER: {
+    inherits: ['USER'],
+    permissions: ['users:read', 'users:activate', 'audit:read'],
+  },
+  ADMIN: {
+    inherits: ['MANAGER', 'MODERATOR'],
+    permissions: ['users:*', 'roles:*', 'audit:*', 'clients:*'],
+  },
+};
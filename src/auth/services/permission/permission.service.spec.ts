@@ -0,0 +1,94 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from 'prisma/prisma.service';
+import { RedisService } from 'src/common/services/redis.service';
+import tokensConfig from 'src/config/tokens.config';
+import { USER_LOOKUP } from '../../user-lookup/user-lookup.interface';
+import { PermissionService } from './permission.service';
+
+describe('PermissionService', () => {
+  let service: PermissionService;
+  let cache: Map<string, string>;
+  const prisma = {
+    role: { findMany: jest.fn(), upsert: jest.fn(), update: jest.fn() },
+    permission: { upsert: jest.fn() },
+  };
+
+  const role = (name: string, inherits: string[], permissions: string[]) => ({
+    name,
+    inherits: inherits.map((inherited) => ({ name: inherited })),
+    permissions: permissions.map((permission) => ({ name: permission })),
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    cache = new Map();
+    prisma.role.findMany.mockResolvedValue([
+      role('USER', [], ['profile:read']),
+      role('MANAGER', ['USER'], ['users:read']),
+      role('ADMIN', ['MANAGER'], ['users:*']),
+      role('AUDITOR', ['USER'], ['audit:read']),
+    ]);
+    const redis = {
+      get: jest.fn((key: string) => Promise.resolve(cache.get(key) ?? null)),
+      set: jest.fn((key: string, value: string) => {
+        cache.set(key, value);
+        return Promise.resolve();
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PermissionService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: RedisService, useValue: redis },
+        { provide: tokensConfig.KEY, useValue: tokensConfig() },
+        {
+          provide: USER_LOOKUP,
+          useValue: {
+            findRoles: jest.fn().mockResolvedValue(['MANAGER', 'AUDITOR']),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PermissionService>(PermissionService);
+  });
+
+  it('collects permissions from assigned and inherited roles', async () => {
+    await expect(service.getUserPermissions('user-1')).resolves.toEqual([
+      'audit:read',
+      'profile:read',
+      'users:read',
+    ]);
+    expect(cache.get('user_permissions:user-1')).toBeDefined();
+  });
+
+  it('creates only the baseline roles the database is missing', async () => {
+    await service.onApplicationBootstrap();
+
+    expect(prisma.role.upsert).toHaveBeenCalledTimes(1);
+    expect(prisma.role.upsert).toHaveBeenCalledWith({
+      where: { name: 'MODERATOR' },
+      update: {},
+      create: { name: 'MODERATOR' },
+    });
+    expect(prisma.permission.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ create: { name: 'users:read' } }),
+    );
+    expect(prisma.role.update).toHaveBeenCalledWith({
+      where: { name: 'MODERATOR' },
+      data: {
+        permissions: { connect: [{ name: 'users:read' }] },
+        inherits: { connect: [{ name: 'USER' }] },
+      },
+    });
+  });
+
+  it('matches wildcard permissions', () => {
+    expect(service.hasPermissions(['users:*'], ['users:write'])).toBe(true);
+    expect(service.hasPermissions(['*'], ['audit:read'])).toBe(true);
+    expect(
+      service.hasPermissions(['users:read'], ['users:read', 'users:write']),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,166 @@
+import {
+  Inject,
+  Injectable,
+  NotFoundException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { PrismaService } from 'prisma/prisma.service';
+import { RedisService } from 'src/common/services/redis.service';
+import tokensConfig from 'src/config/tokens.config';
+import { USER_LOOKUP } from '../../user-lookup/user-lookup.interface';
+import type { UserLookup } from '../../user-lookup/user-lookup.interface';
+import { BASELINE_ROLES } from './baseline-roles';
+
+@Injectable()
+export class PermissionService implements OnApplicationBootstrap {
+  private readonly cachePrefix = 'user_permissions:';
+  private readonly cacheTTL: number;
+
+  constructor(
+    private prisma: PrismaService,
+    private redisService: RedisService,
+    @Inject(tokensConfig.KEY) tokens: ConfigType<typeof tokensConfig>,
+    @Inject(USER_LOOKUP) private userLookup: UserLookup,
+  ) {
+    this.cacheTTL = tokens.permissionsCacheTtl;
+  }
+
+  // create the baseline roles a fresh database is missing, so self-service
+  // routes work without running the seed; existing roles are left as admins
+  // configured them
+  async onApplicationBootstrap() {
+    const existing = await this.prisma.role.findMany({
+      select: { name: true },
+    });
+    const known = new Set(existing.map((role) => role.name));
+    const missing = Object.entries(BASELINE_ROLES).filter(
+      ([name]) => !known.has(name),
+    );
+
+    for (const name of new Set(
+      missing.flatMap(([, role]) => role.permissions),
+    )) {
+      await this.prisma.permission.upsert({
+        where: { name },
+        update: {},
+        create: { name },
+      });
+    }
+    // upsert, another instance may be booting at the same time
+    for (const [name] of missing) {
+      await this.prisma.role.upsert({
+        where: { name },
+        update: {},
+        create: { name },
+      });
+    }
+    for (const [name, role] of missing) {
+      await this.prisma.role.update({
+        where: { name },
+        data: {
+          permissions: {
+            connect: role.permissions.map((permission) => ({
+              name: permission,
+            })),
+          },
+          inherits: {
+            connect: role.inherits.map((parent) => ({ name: parent })),
+          },
+        },
+      });
+    }
+  }
+
+  /**
+   * Resolve every permission a user holds through their roles
+   * @returns Permission names, cached in redis for PERMISSIONS_CACHE_TTL
+   */
+  async getUserPermissions(userId: string): Promise<string[]> {
+    const cached = await this.redisService.get(`${this.cachePrefix}${userId}`);
+    if (cached) {
+      return JSON.parse(cached) as string[];
+    }
+
+    const roleNames = await this.userLookup.findRoles(userId);
+    if (!roleNames) {
+      return [];
+    }
+
+    const permissions = await this.resolveRoles(roleNames);
+
+    await this.redisService.set(
+      `${this.cachePrefix}${userId}`,
+      JSON.stringify(permissions),
+      this.cacheTTL,
+    );
+    return permissions;
+  }
+
+  // walk the inheritance graph from the given roles and collect permissions
+  private async resolveRoles(roleNames: string[]): Promise<string[]> {
+    const roles = await this.prisma.role.findMany({
+      select: {
+        name: true,
+        inherits: { select: { name: true } },
+        permissions: { select: { name: true } },
+      },
+    });
+    const byName = new Map(roles.map((role) => [role.name, role]));
+
+    const visited = new Set<string>();
+    const permissions = new Set<string>();
+    const queue = [...roleNames];
+    while (queue.length > 0) {
+      const name = queue.shift() as string;
+      const role = byName.get(name);
+      if (visited.has(name) || !role) {
+        continue;
+      }
+      visited.add(name);
+      role.permissions.forEach((permission) =>
+        permissions.add(permission.name),
+      );
+      queue.push(...role.inherits.map((inherited) => inherited.name));
+    }
+
+    return [...permissions].sort();
+  }
+
+  /**
+   * Check a set of held permissions against the required ones.
+   * `users:*` grants every users action and `*` grants everything.
+   */
+  hasPermissions(granted: string[], required: string[]): boolean {
+    const held = new Set(granted);
+    return required.every((permission) => {
+      const [resource] = permission.split(':');
+      return held.has(permission) || held.has(`${resource}:*`) || held.has('*');
+    });
+  }
+
+  async assignRole(userId: string, roleName: string): Promise<void> {
+    await this.findRole(roleName);
+    await this.userLookup.addRole(userId, roleName);
+    await this.invalidate(userId);
+  }
+
+  async removeRole(userId: string, roleName: string): Promise<void> {
+    await this.findRole(roleName);
+    await this.userLookup.removeRole(userId, roleName);
+    await this.invalidate(userId);
+  }
+
+  // drop the cached permissions after a user's roles change
+  async invalidate(userId: string): Promise<void> {
+    await this.redisService.del(`${this.cachePrefix}${userId}`);
+  }
+
+  private async findRole(name: string) {
+    const role = await this.prisma.role.findUnique({ where: { name } });
+    if (!role) {
+      throw new NotFoundException(`Role ${name} not found`);
+    }
+    return role;
+  }
+}
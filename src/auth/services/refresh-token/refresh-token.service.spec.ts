@@ -0,0 +1,159 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from 'prisma/prisma.service';
+import { AuditService } from 'src/audit/audit.service';
+import tokensConfig from 'src/config/tokens.config';
+import { AuthJwtService } from '../jwt/jwt.service';
+import { SessionService } from '../session/session.service';
+import { TokenVersionService } from '../token-version/token-version.service';
+import { RefreshTokenService } from './refresh-token.service';
+import { AUTH_MODULE_OPTIONS } from '../../auth.module-definition';
+import { USER_LOOKUP } from '../../user-lookup/user-lookup.interface';
+
+describe('RefreshTokenService', () => {
+  let service: RefreshTokenService;
+  const prisma = {
+    refreshToken: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+  const jwtService = { generateToken: jest.fn() };
+  const sessionService = {
+    getSession: jest.fn(),
+    createSession: jest.fn(),
+    deleteSession: jest.fn(),
+    deleteSessions: jest.fn(),
+  };
+
+  const user = {
+    id: 'user-1',
+    email: 'jane@example.com',
+    name: 'Jane',
+    role: 'USER',
+    isActive: true,
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RefreshTokenService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: AuthJwtService, useValue: jwtService },
+        { provide: SessionService, useValue: sessionService },
+        { provide: tokensConfig.KEY, useValue: tokensConfig() },
+        { provide: AuditService, useValue: { record: jest.fn() } },
+        { provide: TokenVersionService, useValue: { bump: jest.fn() } },
+        { provide: AUTH_MODULE_OPTIONS, useValue: {} },
+        {
+          provide: USER_LOOKUP,
+          useValue: { findById: () => Promise.resolve(user) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<RefreshTokenService>(RefreshTokenService);
+  });
+
+  it('stores only a hash of the issued token', async () => {
+    const token = await service.issueToken('user-1', 'jti-1', {
+      familyId: 'family-1',
+    });
+
+    const [[args]] = prisma.refreshToken.create.mock.calls as [
+      [{ data: { tokenHash: string; familyId: string } }],
+    ];
+    expect(args.data.tokenHash).not.toEqual(token);
+    expect(args.data.familyId).toBe('family-1');
+  });
+
+  it('rotates a valid token within the same family', async () => {
+    prisma.refreshToken.findUnique.mockResolvedValue({
+      id: 'rt-1',
+      familyId: 'family-1',
+      sessionId: 'jti-1',
+      mfa: false,
+      usedAt: null,
+      revokedAt: null,
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+    prisma.refreshToken.updateMany.mockResolvedValue({ count: 1 });
+    jwtService.generateToken.mockResolvedValue({
+      token: 'access',
+      tokenId: 'jti-2',
+    });
+    sessionService.getSession.mockResolvedValue({
+      userId: 'user-1',
+      createdAt: '2026-01-01T08:00:00.000Z',
+      absoluteExpiresAt: '2026-01-08T08:00:00.000Z',
+    });
+
+    const result = await service.rotate('raw-token');
+
+    expect(result.accessToken).toBe('access');
+    expect(sessionService.createSession).toHaveBeenCalledWith(
+      'jti-2',
+      expect.objectContaining({
+        createdAt: '2026-01-01T08:00:00.000Z',
+        absoluteExpiresAt: '2026-01-08T08:00:00.000Z',
+      }),
+    );
+    expect(sessionService.deleteSession).toHaveBeenCalledWith('jti-1');
+    const [[args]] = prisma.refreshToken.create.mock.calls as [
+      [{ data: { familyId: string; sessionId: string } }],
+    ];
+    expect(args.data.familyId).toBe('family-1');
+    expect(args.data.sessionId).toBe('jti-2');
+  });
+
+  it('refuses to revive a session that idled out', async () => {
+    prisma.refreshToken.findUnique.mockResolvedValue({
+      id: 'rt-1',
+      familyId: 'family-1',
+      sessionId: 'jti-1',
+      usedAt: null,
+      revokedAt: null,
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+    prisma.refreshToken.findMany.mockResolvedValue([{ sessionId: 'jti-1' }]);
+    sessionService.getSession.mockResolvedValue(null);
+
+    await expect(service.rotate('raw-token')).rejects.toThrow(
+      'Session expired',
+    );
+    expect(prisma.refreshToken.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { familyId: 'family-1', revokedAt: null },
+      }),
+    );
+    expect(jwtService.generateToken).not.toHaveBeenCalled();
+  });
+
+  it('revokes the whole family when a used token is replayed', async () => {
+    prisma.refreshToken.findUnique.mockResolvedValue({
+      id: 'rt-1',
+      familyId: 'family-1',
+      sessionId: 'jti-1',
+      usedAt: new Date(),
+      revokedAt: null,
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+    prisma.refreshToken.findMany.mockResolvedValue([
+      { sessionId: 'jti-1' },
+      { sessionId: 'jti-2' },
+    ]);
+
+    await expect(service.rotate('raw-token')).rejects.toThrow(
+      UnauthorizedException,
+    );
+    expect(sessionService.deleteSessions).toHaveBeenCalledWith([
+      'jti-1',
+      'jti-2',
+    ]);
+    expect(jwtService.generateToken).not.toHaveBeenCalled();
+  });
+});
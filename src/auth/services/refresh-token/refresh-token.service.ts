@@ -0,0 +1,243 @@
+import { Inject, Injectable, UnauthorizedException } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { AuditAction } from '@prisma/client';
+import { PrismaService } from 'prisma/prisma.service';
+import { AuditService } from 'src/audit/audit.service';
+import tokensConfig from 'src/config/tokens.config';
+import { AuthJwtService } from '../jwt/jwt.service';
+import { SessionMetadata, SessionService } from '../session/session.service';
+import { TokenVersionService } from '../token-version/token-version.service';
+import { AUTH_MODULE_OPTIONS } from '../../auth.module-definition';
+import type { AuthModuleOptions } from '../../auth-module-options.interface';
+import { USER_LOOKUP } from '../../user-lookup/user-lookup.interface';
+import type { UserLookup } from '../../user-lookup/user-lookup.interface';
+
+export interface IssueRefreshTokenOptions {
+  // family to join; a new family is started when omitted
+  familyId?: string;
+  // whether the login behind this family passed an MFA challenge
+  mfa?: boolean;
+  // OAuth client the family was issued to, with the granted scope
+  clientId?: string;
+  scope?: string;
+}
+
+export interface TokenPair {
+  accessToken: string;
+  refreshToken: string;
+}
+
+@Injectable()
+export class RefreshTokenService {
+  private readonly refreshTTL: number;
+
+  constructor(
+    private prisma: PrismaService,
+    private jwtService: AuthJwtService,
+    private sessionService: SessionService,
+    @Inject(tokensConfig.KEY) tokens: ConfigType<typeof tokensConfig>,
+    private auditService: AuditService,
+    private tokenVersionService: TokenVersionService,
+    @Inject(AUTH_MODULE_OPTIONS) options: AuthModuleOptions,
+    @Inject(USER_LOOKUP) private userLookup: UserLookup,
+  ) {
+    this.refreshTTL = options.refreshTokenTtl ?? tokens.refreshTokenTtl;
+  }
+
+  // only the sha256 of a refresh token is ever stored
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Issue a new opaque refresh token bound to an access token session
+   * @param userId - Owner of the token
+   * @param sessionId - jti of the access token issued alongside it
+   * @param options - Family to join and MFA state of the login
+   * @returns The raw refresh token, which is only ever returned once
+   */
+  async issueToken(
+    userId: string,
+    sessionId: string,
+    options: IssueRefreshTokenOptions = {},
+  ): Promise<string> {
+    const refreshToken = randomBytes(32).toString('hex');
+
+    await this.prisma.refreshToken.create({
+      data: {
+        tokenHash: this.hashToken(refreshToken),
+        familyId: options.familyId ?? randomUUID(),
+        sessionId,
+        userId,
+        mfa: options.mfa ?? false,
+        clientId: options.clientId,
+        scope: options.scope,
+        expiresAt: new Date(Date.now() + this.refreshTTL * 1000),
+      },
+    });
+
+    return refreshToken;
+  }
+
+  /**
+   * Exchange a refresh token for a new access/refresh token pair.
+   * Presenting a token that was already rotated revokes its whole family.
+   * @param clientId - OAuth client presenting the token; tokens issued to a
+   * client can't be used by anyone else, including /auth/refresh
+   */
+  async rotate(
+    refreshToken: string,
+    metadata: SessionMetadata = {},
+    clientId?: string,
+  ): Promise<TokenPair> {
+    const stored = await this.prisma.refreshToken.findUnique({
+      where: { tokenHash: this.hashToken(refreshToken) },
+    });
+
+    if (!stored) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    if (stored.usedAt || stored.revokedAt) {
+      await this.revokeFamily(stored.familyId);
+      await this.recordReuse(stored.userId, stored.familyId, metadata);
+      throw new UnauthorizedException('Refresh token reuse detected');
+    }
+
+    if ((stored.clientId ?? undefined) !== clientId) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    if (stored.expiresAt.getTime() <= Date.now()) {
+      throw new UnauthorizedException('Refresh token expired');
+    }
+
+    const user = await this.userLookup.findById(stored.userId);
+    if (!user || !user.isActive) {
+      await this.revokeFamily(stored.familyId);
+      throw new UnauthorizedException('Account is Inactive');
+    }
+
+    // an interactive session that idled out or hit its absolute expiry can't
+    // be revived; offline access granted to an OAuth client is not tied to one
+    const previous = stored.clientId
+      ? null
+      : await this.sessionService.getSession(stored.sessionId);
+    if (!stored.clientId && !previous) {
+      await this.revokeFamily(stored.familyId);
+      throw new UnauthorizedException('Session expired');
+    }
+
+    // claim the token atomically so two concurrent refreshes can't both win
+    const claimed = await this.prisma.refreshToken.updateMany({
+      where: { id: stored.id, usedAt: null, revokedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (claimed.count === 0) {
+      await this.revokeFamily(stored.familyId);
+      await this.recordReuse(stored.userId, stored.familyId, metadata);
+      throw new UnauthorizedException('Refresh token reuse detected');
+    }
+
+    const { token, tokenId } = await this.jwtService.generateToken(
+      user.id,
+      user.email,
+      user.name ?? undefined,
+      user.role,
+      stored.clientId
+        ? { scope: stored.scope ?? undefined, client_id: stored.clientId }
+        : {},
+    );
+
+    await this.sessionService.createSession(tokenId, {
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      mfa: stored.mfa,
+      // the login's start and absolute expiry survive rotation
+      createdAt: previous?.createdAt,
+      absoluteExpiresAt: previous?.absoluteExpiresAt,
+      deviceLabel: previous?.deviceLabel,
+      ...metadata,
+    });
+
+    // the rotated access token replaces the previous one
+    await this.sessionService.deleteSession(stored.sessionId);
+
+    await this.auditService.record({
+      action: AuditAction.TOKEN_REFRESH,
+      actorId: user.id,
+      targetId: user.id,
+      ip: metadata.ip,
+      userAgent: metadata.userAgent,
+      metadata: { familyId: stored.familyId },
+    });
+
+    return {
+      accessToken: token,
+      refreshToken: await this.issueToken(user.id, tokenId, {
+        familyId: stored.familyId,
+        mfa: stored.mfa,
+        clientId: stored.clientId ?? undefined,
+        scope: stored.scope ?? undefined,
+      }),
+    };
+  }
+
+  private async recordReuse(
+    userId: string,
+    familyId: string,
+    metadata: SessionMetadata,
+  ) {
+    await this.auditService.record({
+      action: AuditAction.REFRESH_TOKEN_REUSE,
+      targetId: userId,
+      ip: metadata.ip,
+      userAgent: metadata.userAgent,
+      metadata: { familyId },
+    });
+  }
+
+  // revoke every refresh token in a family and drop their redis sessions
+  async revokeFamily(familyId: string): Promise<void> {
+    const tokens = await this.prisma.refreshToken.findMany({
+      where: { familyId },
+      select: { sessionId: true },
+    });
+
+    await this.prisma.refreshToken.updateMany({
+      where: { familyId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    await this.sessionService.deleteSessions(
+      tokens.map((token) => token.sessionId),
+    );
+  }
+
+  // end a single session along with the refresh family that keeps it alive
+  async revokeSession(sessionId: string): Promise<void> {
+    const token = await this.prisma.refreshToken.findFirst({
+      where: { sessionId },
+      select: { familyId: true },
+    });
+
+    if (token) {
+      await this.revokeFamily(token.familyId);
+    }
+    await this.sessionService.deleteSession(sessionId);
+  }
+
+  // revoke every refresh token, redis session and access token a user holds
+  async revokeAllForUser(userId: string): Promise<void> {
+    await this.prisma.refreshToken.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    await this.sessionService.deleteUserSessions(userId);
+    await this.tokenVersionService.bump(userId);
+  }
+}
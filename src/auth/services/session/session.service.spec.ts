@@ -0,0 +1,99 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { SessionData, SessionService } from './session.service';
+import { SESSION_STORE } from './stores/session-store.interface';
+import { AUTH_MODULE_OPTIONS } from '../../auth.module-definition';
+import sessionConfig from 'src/config/session.config';
+import tokensConfig from 'src/config/tokens.config';
+
+describe('SessionService', () => {
+  let service: SessionService;
+  const store = { set: jest.fn(), delete: jest.fn() };
+  const config = sessionConfig();
+  config.idleTimeout = 1800;
+  config.absoluteTimeout = 86400;
+  config.roles.ADMIN.idleTimeout = 600;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionService,
+        { provide: SESSION_STORE, useValue: store },
+        { provide: AUTH_MODULE_OPTIONS, useValue: {} },
+        { provide: sessionConfig.KEY, useValue: config },
+        { provide: tokensConfig.KEY, useValue: tokensConfig() },
+      ],
+    }).compile();
+
+    service = module.get<SessionService>(SessionService);
+  });
+
+  it('uses the idle timeout of the role and records device details', async () => {
+    const session = await service.createSession('jti-1', {
+      userId: 'user-1',
+      email: 'root@example.com',
+      role: 'ADMIN',
+      userAgent:
+        'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0) AppleWebKit/537.36 Chrome/120.0 Safari/537.36',
+    });
+
+    expect(store.set).toHaveBeenCalledWith('jti-1', session, 600);
+    expect(session.deviceLabel).toBe('Chrome on macOS');
+    expect(
+      new Date(session.absoluteExpiresAt).getTime() -
+        new Date(session.createdAt).getTime(),
+    ).toBe(86400 * 1000);
+  });
+
+  it('never lets the idle ttl run past the absolute expiry', async () => {
+    await service.createSession('jti-1', {
+      userId: 'user-1',
+      email: 'jane@example.com',
+      role: 'USER',
+      absoluteExpiresAt: new Date(Date.now() + 300_000).toISOString(),
+    });
+
+    const [[, , ttl]] = store.set.mock.calls as [[string, SessionData, number]];
+    expect(ttl).toBeLessThanOrEqual(300);
+  });
+
+  it('refuses to store a session at or past its absolute expiry', async () => {
+    for (const remaining of [500, 0, -60_000]) {
+      await expect(
+        service.createSession('jti-1', {
+          userId: 'user-1',
+          email: 'jane@example.com',
+          role: 'USER',
+          absoluteExpiresAt: new Date(Date.now() + remaining).toISOString(),
+        }),
+      ).rejects.toThrow(UnauthorizedException);
+    }
+    expect(store.set).not.toHaveBeenCalled();
+  });
+
+  it('only slides the idle timeout once per touch interval', async () => {
+    const session: SessionData = {
+      userId: 'user-1',
+      email: 'jane@example.com',
+      role: 'USER',
+      createdAt: new Date().toISOString(),
+      lastSeenAt: new Date().toISOString(),
+      absoluteExpiresAt: new Date(Date.now() + 86_400_000).toISOString(),
+    };
+
+    await service.touchSession('jti-1', session);
+    expect(store.set).not.toHaveBeenCalled();
+
+    await service.touchSession('jti-1', {
+      ...session,
+      lastSeenAt: new Date(Date.now() - 120_000).toISOString(),
+    });
+    expect(store.set).toHaveBeenCalledWith(
+      'jti-1',
+      expect.objectContaining({ userId: 'user-1' }),
+      1800,
+    );
+  });
+});
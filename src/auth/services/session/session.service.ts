@@ -1,69 +1,216 @@
-import { Injectable } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
+import { Inject, Injectable, UnauthorizedException } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
 import { UserRole } from '@prisma/client';
-import { RedisService } from 'src/common/services/redis.service';
+import { SESSION_STORE } from './stores/session-store.interface';
+import type { SessionStore } from './stores/session-store.interface';
+import { AUTH_MODULE_OPTIONS } from '../../auth.module-definition';
+import type { AuthModuleOptions } from '../../auth-module-options.interface';
+import sessionConfig from 'src/config/session.config';
+import tokensConfig from 'src/config/tokens.config';
 
 export interface SessionData {
   userId: string;
   email: string;
+  // ISO timestamps
   createdAt: string;
+  lastSeenAt: string;
+  // the session ends here however active it is
+  absoluteExpiresAt: string;
   role?: UserRole;
+  ip?: string;
+  userAgent?: string;
+  deviceLabel?: string;
+  // set when the login passed an MFA challenge
+  mfa?: boolean;
+}
+
+// what callers pass to createSession; timestamps are filled in unless carried
+// over from the session being replaced
+export type NewSessionData = Omit<
+  SessionData,
+  'createdAt' | 'lastSeenAt' | 'absoluteExpiresAt'
+> &
+  Partial<Pick<SessionData, 'createdAt' | 'absoluteExpiresAt'>>;
+
+// request details recorded alongside a new session
+export interface SessionMetadata {
+  ip?: string;
+  userAgent?: string;
+  // shown in the session list; derived from the user agent when omitted
+  deviceLabel?: string;
+}
+
+export interface ActiveSession extends SessionData {
+  tokenId: string;
+}
+
+interface SessionLifetime {
+  idle: number;
+  absolute: number;
 }
 
 @Injectable()
 export class SessionService {
-  private readonly sessionPrefix = 'session:';
-  private readonly defaultTTL: number;
+  private readonly defaultLifetime: SessionLifetime;
+  private readonly roleLifetimes = new Map<UserRole, SessionLifetime>();
+  // lastSeenAt and the idle ttl are only written this often
+  private readonly touchInterval: number;
 
   constructor(
-    private redisService: RedisService,
-    private configService: ConfigService,
+    @Inject(SESSION_STORE) private store: SessionStore,
+    @Inject(sessionConfig.KEY) config: ConfigType<typeof sessionConfig>,
+    @Inject(tokensConfig.KEY) tokens: ConfigType<typeof tokensConfig>,
+    @Inject(AUTH_MODULE_OPTIONS) options: AuthModuleOptions,
   ) {
-    // Get TTL from config or default to 1 hour (3600 seconds)
-    const ttlFromConfig = this.configService.get<string>('REDIS_TTL');
-    const parsedTtl = ttlFromConfig ? Number(ttlFromConfig) : NaN;
-    this.defaultTTL = Number.isFinite(parsedTtl) ? parsedTtl : 3600;
+    const { session = {} } = options;
+    this.defaultLifetime = {
+      idle: session.idleTimeout ?? config.idleTimeout,
+      absolute:
+        session.absoluteTimeout ??
+        config.absoluteTimeout ??
+        options.refreshTokenTtl ??
+        tokens.refreshTokenTtl,
+    };
+    for (const role of Object.values(UserRole)) {
+      const roleOptions = session.roles?.[role] ?? {};
+      this.roleLifetimes.set(role, {
+        idle:
+          roleOptions.idleTimeout ??
+          config.roles[role].idleTimeout ??
+          this.defaultLifetime.idle,
+        absolute:
+          roleOptions.absoluteTimeout ??
+          config.roles[role].absoluteTimeout ??
+          this.defaultLifetime.absolute,
+      });
+    }
+    this.touchInterval = session.touchInterval ?? config.touchInterval;
   }
 
-  // create or get session key
-  private getSessionKey(tokenId: string): string {
-    return `${this.sessionPrefix}${tokenId}`;
+  getLifetime(role?: UserRole): SessionLifetime {
+    return (role && this.roleLifetimes.get(role)) || this.defaultLifetime;
   }
 
+  // idle ttl, cut short so the key never outlives the absolute expiry
+  private getTTL(session: SessionData, now = Date.now()): number {
+    const remaining = Math.floor(
+      (new Date(session.absoluteExpiresAt).getTime() - now) / 1000,
+    );
+    return Math.min(this.getLifetime(session.role).idle, remaining);
+  }
+
+  // e.g. "Chrome on macOS"; good enough to tell sessions apart in a list
+  private describeDevice(userAgent?: string): string | undefined {
+    if (!userAgent) {
+      return undefined;
+    }
+    const browsers: [RegExp, string][] = [
+      [/Edg\//, 'Edge'],
+      [/OPR\/|Opera/, 'Opera'],
+      [/Firefox\//, 'Firefox'],
+      [/Chrome\//, 'Chrome'],
+      [/Safari\//, 'Safari'],
+      [/curl\//, 'curl'],
+    ];
+    const systems: [RegExp, string][] = [
+      [/Android/, 'Android'],
+      [/iPhone|iPad/, 'iOS'],
+      [/Mac OS X|Macintosh/, 'macOS'],
+      [/Windows/, 'Windows'],
+      [/Linux/, 'Linux'],
+    ];
+    const browser = browsers.find(([pattern]) => pattern.test(userAgent));
+    const system = systems.find(([pattern]) => pattern.test(userAgent));
+    if (!browser && !system) {
+      return undefined;
+    }
+    return [browser?.[1], system?.[1]].filter(Boolean).join(' on ');
+  }
+
+  /**
+   * Store a session under the access token's jti
+   * @returns The stored session, with its timestamps and device label
+   * @throws UnauthorizedException when a carried-over absolute expiry has passed
+   */
   async createSession(
     tokenId: string,
-    sessionData: SessionData,
-    ttl?: number,
-  ): Promise<void> {
-    const key = this.getSessionKey(tokenId);
-    const value = JSON.stringify(sessionData);
-    const sessionTTL = ttl || this.defaultTTL;
-
-    await this.redisService.set(key, value, sessionTTL);
+    sessionData: NewSessionData,
+  ): Promise<SessionData> {
+    const now = new Date();
+    const session: SessionData = {
+      ...sessionData,
+      createdAt: sessionData.createdAt ?? now.toISOString(),
+      lastSeenAt: now.toISOString(),
+      absoluteExpiresAt:
+        sessionData.absoluteExpiresAt ??
+        new Date(
+          now.getTime() + this.getLifetime(sessionData.role).absolute * 1000,
+        ).toISOString(),
+      deviceLabel:
+        sessionData.deviceLabel ?? this.describeDevice(sessionData.userAgent),
+    };
+    // a ttl of 0 would store the session without any expiry
+    const sessionTTL = this.getTTL(session, now.getTime());
+    if (sessionTTL <= 0) {
+      throw new UnauthorizedException('Session expired');
+    }
+    await this.store.set(tokenId, session, sessionTTL);
+    return session;
   }
 
-  async getSession(tokenId: string) {
-    const key = this.getSessionKey(tokenId);
-    const value = await this.redisService.get(key);
+  getSession(tokenId: string): Promise<SessionData | null> {
+    return this.store.get(tokenId);
+  }
 
-    if (!value) {
-      return null;
-    }
-    try {
-      return JSON.parse(value) as SessionData;
-    } catch {
-      return null;
-    }
+  async sessionExists(tokenId: string): Promise<boolean> {
+    return (await this.store.get(tokenId)) !== null;
+  }
+
+  async deleteSession(tokenId: string): Promise<void> {
+    await this.store.delete(tokenId);
+  }
+
+  // drop several sessions at once, e.g. every token of a refresh family
+  async deleteSessions(tokenIds: string[]): Promise<void> {
+    await this.store.delete(...tokenIds);
   }
 
-  async sessionExists(tokenId: string) {
-    const key = this.getSessionKey(tokenId);
-    return await this.redisService.exists(key);
+  // live sessions of a user
+  getUserSessions(userId: string): Promise<ActiveSession[]> {
+    return this.store.listByUser(userId);
   }
 
-  async refreshSession(tokenId: string, ttl?: number): Promise<void> {
-    const key = this.getSessionKey(tokenId);
-    const sessionTTL = ttl || this.defaultTTL;
-    await this.redisService.expire(key, sessionTTL);
+  async deleteUserSessions(userId: string): Promise<void> {
+    await this.store.deleteByUser(userId);
+  }
+
+  /**
+   * Slide the idle timeout after a request made with the session. Only
+   * writes once per SESSION_TOUCH_INTERVAL so the store isn't hit on every call.
+   */
+  async touchSession(tokenId: string, session: SessionData): Promise<void> {
+    // sessions stored before lastSeenAt existed keep their original ttl
+    if (!session.absoluteExpiresAt) {
+      return;
+    }
+    const now = Date.now();
+    if (
+      now - new Date(session.lastSeenAt).getTime() <
+      this.touchInterval * 1000
+    ) {
+      return;
+    }
+
+    const sessionTTL = this.getTTL(session, now);
+    if (sessionTTL <= 0) {
+      await this.deleteSession(tokenId);
+      return;
+    }
+
+    await this.store.set(
+      tokenId,
+      { ...session, lastSeenAt: new Date(now).toISOString() },
+      sessionTTL,
+    );
   }
 }
@@ -0,0 +1,70 @@
+import { Injectable } from '@nestjs/common';
+import type { ActiveSession, SessionData } from '../session.service';
+import { SessionStore } from './session-store.interface';
+
+interface StoredSession {
+  session: SessionData;
+  expiresAt: number;
+}
+
+/**
+ * Keeps sessions in process memory. Fine for tests and single-instance
+ * deployments; sessions are lost on restart and not shared between instances.
+ */
+@Injectable()
+export class MemorySessionStore implements SessionStore {
+  private readonly sessions = new Map<string, StoredSession>();
+
+  // expired entries are dropped lazily, whenever they're looked at
+  private read(tokenId: string): SessionData | null {
+    const entry = this.sessions.get(tokenId);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.sessions.delete(tokenId);
+      return null;
+    }
+    return entry.session;
+  }
+
+  set(tokenId: string, session: SessionData, ttl: number) {
+    this.sessions.set(tokenId, {
+      session: { ...session },
+      expiresAt: Date.now() + ttl * 1000,
+    });
+    return Promise.resolve();
+  }
+
+  get(tokenId: string) {
+    const session = this.read(tokenId);
+    return Promise.resolve(session && { ...session });
+  }
+
+  delete(...tokenIds: string[]) {
+    for (const tokenId of tokenIds) {
+      this.sessions.delete(tokenId);
+    }
+    return Promise.resolve();
+  }
+
+  listByUser(userId: string) {
+    const sessions: ActiveSession[] = [];
+    for (const tokenId of [...this.sessions.keys()]) {
+      const session = this.read(tokenId);
+      if (session?.userId === userId) {
+        sessions.push({ tokenId, ...session });
+      }
+    }
+    return Promise.resolve(sessions);
+  }
+
+  deleteByUser(userId: string) {
+    for (const [tokenId, { session }] of this.sessions) {
+      if (session.userId === userId) {
+        this.sessions.delete(tokenId);
+      }
+    }
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,60 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from 'prisma/prisma.service';
+import type { ActiveSession, SessionData } from '../session.service';
+import { SessionStore } from './session-store.interface';
+
+/**
+ * Keeps sessions in the Session table, next to the users they belong to.
+ * Expired rows are ignored on read and swept whenever a user's sessions are
+ * listed or removed.
+ */
+@Injectable()
+export class PrismaSessionStore implements SessionStore {
+  constructor(private prisma: PrismaService) {}
+
+  async set(tokenId: string, session: SessionData, ttl: number) {
+    const data = {
+      userId: session.userId,
+      data: session as unknown as Prisma.InputJsonObject,
+      expiresAt: new Date(Date.now() + ttl * 1000),
+    };
+    await this.prisma.session.upsert({
+      where: { id: tokenId },
+      create: { id: tokenId, ...data },
+      update: data,
+    });
+  }
+
+  async get(tokenId: string): Promise<SessionData | null> {
+    const row = await this.prisma.session.findFirst({
+      where: { id: tokenId, expiresAt: { gt: new Date() } },
+    });
+    return row ? (row.data as unknown as SessionData) : null;
+  }
+
+  async delete(...tokenIds: string[]) {
+    if (tokenIds.length === 0) {
+      return;
+    }
+    await this.prisma.session.deleteMany({ where: { id: { in: tokenIds } } });
+  }
+
+  async listByUser(userId: string): Promise<ActiveSession[]> {
+    await this.prisma.session.deleteMany({
+      where: { expiresAt: { lte: new Date() } },
+    });
+    const rows = await this.prisma.session.findMany({
+      where: { userId },
+      orderBy: { expiresAt: 'desc' },
+    });
+    return rows.map((row) => ({
+      tokenId: row.id,
+      ...(row.data as unknown as SessionData),
+    }));
+  }
+
+  async deleteByUser(userId: string) {
+    await this.prisma.session.deleteMany({ where: { userId } });
+  }
+}
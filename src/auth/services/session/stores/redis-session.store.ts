@@ -0,0 +1,96 @@
+import { Injectable } from '@nestjs/common';
+import { RedisService } from 'src/common/services/redis.service';
+import type { ActiveSession, SessionData } from '../session.service';
+import { SessionStore } from './session-store.interface';
+
+// one key per session plus a per-user set of tokenIds for listing
+@Injectable()
+export class RedisSessionStore implements SessionStore {
+  private readonly sessionPrefix = 'session:';
+  private readonly userSessionsPrefix = 'user_sessions:';
+
+  constructor(private redisService: RedisService) {}
+
+  private getSessionKey(tokenId: string): string {
+    return `${this.sessionPrefix}${tokenId}`;
+  }
+
+  private getUserSessionsKey(userId: string): string {
+    return `${this.userSessionsPrefix}${userId}`;
+  }
+
+  // keep the index alive at least as long as its longest-lived session
+  private async extendUserIndex(userId: string, ttl: number): Promise<void> {
+    const key = this.getUserSessionsKey(userId);
+    const currentTTL = await this.redisService.ttl(key);
+    if (currentTTL < ttl) {
+      await this.redisService.expire(key, ttl);
+    }
+  }
+
+  async set(tokenId: string, session: SessionData, ttl: number) {
+    await this.redisService.set(
+      this.getSessionKey(tokenId),
+      JSON.stringify(session),
+      ttl,
+    );
+    await this.redisService.sadd(
+      this.getUserSessionsKey(session.userId),
+      tokenId,
+    );
+    await this.extendUserIndex(session.userId, ttl);
+  }
+
+  async get(tokenId: string): Promise<SessionData | null> {
+    const value = await this.redisService.get(this.getSessionKey(tokenId));
+    if (!value) {
+      return null;
+    }
+    try {
+      return JSON.parse(value) as SessionData;
+    } catch {
+      return null;
+    }
+  }
+
+  async delete(...tokenIds: string[]) {
+    for (const tokenId of tokenIds) {
+      const session = await this.get(tokenId);
+      await this.redisService.del(this.getSessionKey(tokenId));
+      if (session) {
+        await this.redisService.srem(
+          this.getUserSessionsKey(session.userId),
+          tokenId,
+        );
+      }
+    }
+  }
+
+  // prunes index entries whose session already expired
+  async listByUser(userId: string): Promise<ActiveSession[]> {
+    const indexKey = this.getUserSessionsKey(userId);
+    const tokenIds = await this.redisService.smembers(indexKey);
+
+    const sessions: ActiveSession[] = [];
+    const expired: string[] = [];
+    for (const tokenId of tokenIds) {
+      const session = await this.get(tokenId);
+      if (session) {
+        sessions.push({ tokenId, ...session });
+      } else {
+        expired.push(tokenId);
+      }
+    }
+
+    await this.redisService.srem(indexKey, ...expired);
+    return sessions;
+  }
+
+  async deleteByUser(userId: string) {
+    const indexKey = this.getUserSessionsKey(userId);
+    const tokenIds = await this.redisService.smembers(indexKey);
+    const keys = tokenIds.map((tokenId) => this.getSessionKey(tokenId));
+
+    await this.redisService.del(...keys, indexKey);
+  }
+}
@@ -0,0 +1,180 @@
+import { PrismaService } from 'prisma/prisma.service';
+import { RedisService } from 'src/common/services/redis.service';
+import { SessionData } from '../session.service';
+import { MemorySessionStore } from './memory-session.store';
+import { PrismaSessionStore } from './prisma-session.store';
+import { RedisSessionStore } from './redis-session.store';
+import { SessionStore } from './session-store.interface';
+
+interface StoreHarness {
+  store: SessionStore;
+  // users the sessions belong to; must exist for stores with foreign keys
+  userIds: [string, string];
+  close(): Promise<void>;
+}
+
+const session = (userId: string): SessionData => ({
+  userId,
+  email: `${userId}@example.com`,
+  createdAt: '2026-01-01T08:00:00.000Z',
+  lastSeenAt: '2026-01-01T08:00:00.000Z',
+  absoluteExpiresAt: '2026-01-08T08:00:00.000Z',
+  deviceLabel: 'Firefox on Linux',
+});
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// every SessionStore must pass these
+function describeSessionStore(
+  name: string,
+  createHarness: () => Promise<StoreHarness>,
+  enabled = true,
+) {
+  (enabled ? describe : describe.skip)(name, () => {
+    let harness: StoreHarness;
+    let store: SessionStore;
+    let alice: string;
+    let bob: string;
+
+    beforeEach(async () => {
+      harness = await createHarness();
+      ({ store } = harness);
+      [alice, bob] = harness.userIds;
+    });
+
+    afterEach(async () => {
+      await store.deleteByUser(alice);
+      await store.deleteByUser(bob);
+      await harness.close();
+    });
+
+    it('returns what was stored and null for unknown ids', async () => {
+      await store.set('contract-1', session(alice), 60);
+
+      await expect(store.get('contract-1')).resolves.toEqual(session(alice));
+      await expect(store.get('contract-missing')).resolves.toBeNull();
+    });
+
+    it('overwrites a session in place', async () => {
+      await store.set('contract-1', session(alice), 60);
+      await store.set(
+        'contract-1',
+        { ...session(alice), lastSeenAt: '2026-01-01T09:00:00.000Z' },
+        60,
+      );
+
+      await expect(store.get('contract-1')).resolves.toMatchObject({
+        lastSeenAt: '2026-01-01T09:00:00.000Z',
+      });
+      await expect(store.listByUser(alice)).resolves.toHaveLength(1);
+    });
+
+    it('forgets a session once its ttl runs out', async () => {
+      await store.set('contract-1', session(alice), 1);
+      await sleep(1100);
+
+      await expect(store.get('contract-1')).resolves.toBeNull();
+      await expect(store.listByUser(alice)).resolves.toEqual([]);
+    });
+
+    it('lists and deletes sessions per user', async () => {
+      await store.set('contract-1', session(alice), 60);
+      await store.set('contract-2', session(alice), 60);
+      await store.set('contract-3', session(bob), 60);
+
+      const listed = await store.listByUser(alice);
+      expect(listed.map(({ tokenId }) => tokenId).sort()).toEqual([
+        'contract-1',
+        'contract-2',
+      ]);
+      expect(listed[0]).toMatchObject({ userId: alice });
+
+      await store.deleteByUser(alice);
+      await expect(store.listByUser(alice)).resolves.toEqual([]);
+      await expect(store.get('contract-3')).resolves.not.toBeNull();
+    });
+
+    it('deletes several sessions at once', async () => {
+      await store.set('contract-1', session(alice), 60);
+      await store.set('contract-2', session(alice), 60);
+      await store.set('contract-3', session(alice), 60);
+
+      await store.delete('contract-1', 'contract-2', 'contract-missing');
+
+      const listed = await store.listByUser(alice);
+      expect(listed.map(({ tokenId }) => tokenId)).toEqual(['contract-3']);
+    });
+  });
+}
+
+describe('SessionStore contract', () => {
+  describeSessionStore('MemorySessionStore', () =>
+    Promise.resolve({
+      store: new MemorySessionStore(),
+      userIds: ['user-a', 'user-b'],
+      close: () => Promise.resolve(),
+    }),
+  );
+
+  // RedisService falls back to process memory when redis isn't configured
+  describeSessionStore('RedisSessionStore without redis', () => {
+    const redis = new RedisService({
+      enabled: false,
+      host: 'localhost',
+      port: 6379,
+      password: undefined,
+    });
+    return Promise.resolve({
+      store: new RedisSessionStore(redis),
+      userIds: ['user-a', 'user-b'],
+      close: () => redis.onModuleDestroy(),
+    });
+  });
+
+  // the other backends need the docker-compose services, e.g.
+  // TEST_REDIS_HOST=localhost TEST_DATABASE_URL=postgres://... npm test
+  const redisHost = process.env.TEST_REDIS_HOST;
+  describeSessionStore(
+    'RedisSessionStore',
+    () => {
+      const redis = new RedisService({
+        enabled: true,
+        host: redisHost as string,
+        port: 6379,
+        password: undefined,
+      });
+      return Promise.resolve({
+        store: new RedisSessionStore(redis),
+        userIds: ['contract-user-a', 'contract-user-b'],
+        close: () => redis.onModuleDestroy(),
+      });
+    },
+    !!redisHost,
+  );
+
+  const databaseUrl = process.env.TEST_DATABASE_URL;
+  describeSessionStore(
+    'PrismaSessionStore',
+    async () => {
+      const prisma = new PrismaService({ url: databaseUrl as string });
+      const users = await Promise.all(
+        ['a', 'b'].map((suffix) =>
+          prisma.user.upsert({
+            where: { email: `session-contract-${suffix}@example.com` },
+            create: {
+              email: `session-contract-${suffix}@example.com`,
+              password: 'unused',
+            },
+            update: {},
+          }),
+        ),
+      );
+      return {
+        store: new PrismaSessionStore(prisma),
+        userIds: [users[0].id, users[1].id],
+        close: () => prisma.$disconnect(),
+      };
+    },
+    !!databaseUrl,
+  );
+});
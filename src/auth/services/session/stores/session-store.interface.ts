@@ -0,0 +1,22 @@
+import type { ActiveSession, SessionData } from '../session.service';
+
+export const SESSION_STORE = 'SESSION_STORE';
+
+/**
+ * Where SessionService keeps sessions. Lifetimes are decided by the
+ * service; a store only has to forget a session once its ttl runs out.
+ */
+export interface SessionStore {
+  // create or overwrite a session, replacing its ttl
+  set(tokenId: string, session: SessionData, ttl: number): Promise<void>;
+
+  // null once the session expired or was deleted
+  get(tokenId: string): Promise<SessionData | null>;
+
+  delete(...tokenIds: string[]): Promise<void>;
+
+  // live sessions only
+  listByUser(userId: string): Promise<ActiveSession[]>;
+
+  deleteByUser(userId: string): Promise<void>;
+}
@@ -0,0 +1,28 @@
+import { Injectable } from '@nestjs/common';
+import { RedisService } from 'src/common/services/redis.service';
+
+/**
+ * Per-user counter baked into every access token as `ver`. Bumping it makes
+ * every token issued before the bump fail validation, whatever session it
+ * belongs to.
+ */
+@Injectable()
+export class TokenVersionService {
+  private readonly versionPrefix = 'token_version:';
+
+  constructor(private redisService: RedisService) {}
+
+  private getVersionKey(userId: string): string {
+    return `${this.versionPrefix}${userId}`;
+  }
+
+  // 0 until the first bump; never expires so old tokens can't come back
+  async get(userId: string): Promise<number> {
+    const value = await this.redisService.get(this.getVersionKey(userId));
+    return value ? Number(value) : 0;
+  }
+
+  async bump(userId: string): Promise<number> {
+    return this.redisService.incr(this.getVersionKey(userId));
+  }
+}
@@ -0,0 +1,72 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { UserTokenType } from '@prisma/client';
+import { PrismaService } from 'prisma/prisma.service';
+import { UserTokenService } from './user-token.service';
+
+describe('UserTokenService', () => {
+  let service: UserTokenService;
+  const prisma = {
+    userToken: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UserTokenService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<UserTokenService>(UserTokenService);
+  });
+
+  it('returns the owner of a valid token', async () => {
+    prisma.userToken.findUnique.mockResolvedValue({
+      id: 'token-1',
+      userId: 'user-1',
+      type: UserTokenType.EMAIL_VERIFICATION,
+      usedAt: null,
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+    prisma.userToken.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(
+      service.consume('raw', UserTokenType.EMAIL_VERIFICATION),
+    ).resolves.toBe('user-1');
+  });
+
+  it('rejects a token that was already used', async () => {
+    prisma.userToken.findUnique.mockResolvedValue({
+      id: 'token-1',
+      userId: 'user-1',
+      type: UserTokenType.EMAIL_VERIFICATION,
+      usedAt: new Date(),
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+
+    await expect(
+      service.consume('raw', UserTokenType.EMAIL_VERIFICATION),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('rejects an expired token', async () => {
+    prisma.userToken.findUnique.mockResolvedValue({
+      id: 'token-1',
+      userId: 'user-1',
+      type: UserTokenType.EMAIL_VERIFICATION,
+      usedAt: null,
+      expiresAt: new Date(Date.now() - 1),
+    });
+
+    await expect(
+      service.consume('raw', UserTokenType.EMAIL_VERIFICATION),
+    ).rejects.toThrow(BadRequestException);
+    expect(prisma.userToken.updateMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,97 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { UserTokenType } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from 'prisma/prisma.service';
+
+@Injectable()
+export class UserTokenService {
+  constructor(private prisma: PrismaService) {}
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Issue a single-use token, invalidating any unused one of the same type
+   * @param userId - Owner of the token
+   * @param type - What the token may be used for
+   * @param ttl - Lifetime in seconds
+   * @returns The raw token; only its hash is stored
+   */
+  async issue(
+    userId: string,
+    type: UserTokenType,
+    ttl: number,
+  ): Promise<string> {
+    const token = randomBytes(32).toString('hex');
+
+    await this.prisma.$transaction([
+      this.prisma.userToken.updateMany({
+        where: { userId, type, usedAt: null },
+        data: { usedAt: new Date() },
+      }),
+      this.prisma.userToken.create({
+        data: {
+          userId,
+          type,
+          tokenHash: this.hashToken(token),
+          expiresAt: new Date(Date.now() + ttl * 1000),
+        },
+      }),
+    ]);
+
+    return token;
+  }
+
+  // invalidate every unused token of a type, e.g. after the address it was
+  // mailed to changed
+  async revokeAll(userId: string, type: UserTokenType): Promise<void> {
+    await this.prisma.userToken.updateMany({
+      where: { userId, type, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+  }
+
+  private async findValid(token: string, type: UserTokenType) {
+    const stored = await this.prisma.userToken.findUnique({
+      where: { tokenHash: this.hashToken(token) },
+    });
+
+    if (
+      !stored ||
+      stored.type !== type ||
+      stored.usedAt ||
+      stored.expiresAt.getTime() <= Date.now()
+    ) {
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    return stored;
+  }
+
+  // check a token without using it up, e.g. to validate input first
+  async peek(token: string, type: UserTokenType): Promise<string> {
+    const stored = await this.findValid(token, type);
+    return stored.userId;
+  }
+
+  /**
+   * Mark a token as used and return its owner
+   * @throws BadRequestException when the token is unknown, used or expired
+   */
+  async consume(token: string, type: UserTokenType): Promise<string> {
+    const stored = await this.findValid(token, type);
+
+    // guard against the same token being redeemed twice concurrently
+    const claimed = await this.prisma.userToken.updateMany({
+      where: { id: stored.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (claimed.count === 0) {
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    return stored.userId;
+  }
+}
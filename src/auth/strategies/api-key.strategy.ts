@@ -0,0 +1,62 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import type { Request } from 'express';
+import { Strategy } from 'passport-strategy';
+import type { AuthenticatedUser } from 'src/common/decorators/user.decorator';
+import { ApiKeyService } from '../services/api-key/api-key.service';
+
+type VerifyCallback = (
+  apiKey: string,
+  done: (error: Error | null, user?: AuthenticatedUser | false) => void,
+) => void;
+
+// reads `Authorization: ApiKey <key>` or `X-API-Key: <key>`
+class HeaderApiKeyStrategy extends Strategy {
+  constructor(private verify: VerifyCallback) {
+    super();
+  }
+
+  authenticate(request: Request) {
+    const [scheme, credentials] =
+      request.headers.authorization?.split(' ') ?? [];
+    const header = request.headers['x-api-key'];
+    const apiKey =
+      scheme?.toLowerCase() === 'apikey'
+        ? credentials
+        : typeof header === 'string'
+          ? header
+          : undefined;
+
+    if (!apiKey) {
+      return this.fail('ApiKey', 401);
+    }
+
+    this.verify(apiKey, (error, user) => {
+      if (error) {
+        return this.error(error);
+      }
+      if (!user) {
+        return this.fail('ApiKey', 401);
+      }
+      this.success(user);
+    });
+  }
+}
+
+@Injectable()
+export class ApiKeyStrategy extends PassportStrategy(
+  HeaderApiKeyStrategy,
+  'api-key',
+) {
+  constructor(private apiKeyService: ApiKeyService) {
+    super();
+  }
+
+  async validate(apiKey: string): Promise<AuthenticatedUser> {
+    const user = await this.apiKeyService.validate(apiKey);
+    if (!user) {
+      throw new UnauthorizedException('Invalid or expired API key');
+    }
+    return user;
+  }
+}
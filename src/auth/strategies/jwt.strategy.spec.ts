@@ -0,0 +1,139 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from 'prisma/prisma.service';
+import { AuditService } from 'src/audit/audit.service';
+import { PasswordService } from 'src/common/services/password.service';
+import { RedisService } from 'src/common/services/redis.service';
+import redisConfig from 'src/config/redis.config';
+import tokensConfig from 'src/config/tokens.config';
+import { EmailVerificationService } from 'src/auth/services/email-verification/email-verification.service';
+import { LoginThrottleService } from 'src/auth/services/login-throttle/login-throttle.service';
+import { UsersService } from 'src/user/users.service';
+import { AUTH_MODULE_OPTIONS } from '../auth.module-definition';
+import { JwtKeyService } from '../services/jwt/jwt-key.service';
+import { AuthJwtService } from '../services/jwt/jwt.service';
+import { PasswordPolicyService } from '../services/password-policy/password-policy.service';
+import { PermissionService } from '../services/permission/permission.service';
+import { RefreshTokenService } from '../services/refresh-token/refresh-token.service';
+import { SessionService } from '../services/session/session.service';
+import { TokenVersionService } from '../services/token-version/token-version.service';
+import { UserTokenService } from '../services/user-token/user-token.service';
+import { USER_LOOKUP } from '../user-lookup/user-lookup.interface';
+import { JwtPayload, JwtStrategy } from './jwt.strategy';
+
+describe('JwtStrategy', () => {
+  let strategy: JwtStrategy;
+  let usersService: UsersService;
+  let tokenVersionService: TokenVersionService;
+  const user = {
+    id: 'user-1',
+    email: 'jane@example.com',
+    name: 'Jane',
+    password: 'old-hash',
+    role: 'USER',
+    isActive: true,
+  };
+  const prisma = {
+    user: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    refreshToken: { updateMany: jest.fn() },
+  };
+  const sessionService = {
+    getSession: jest.fn(),
+    touchSession: jest.fn(),
+    deleteUserSessions: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    prisma.user.findUnique.mockResolvedValue(user);
+    prisma.user.update.mockImplementation(
+      ({ data }: { data: Partial<typeof user> }) =>
+        Promise.resolve({ ...user, ...data }),
+    );
+    sessionService.getSession.mockResolvedValue({ userId: 'user-1' });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JwtStrategy,
+        UsersService,
+        RefreshTokenService,
+        TokenVersionService,
+        // redis disabled: token versions are kept in memory
+        RedisService,
+        { provide: redisConfig.KEY, useValue: { enabled: false } },
+        { provide: tokensConfig.KEY, useValue: tokensConfig() },
+        { provide: AUTH_MODULE_OPTIONS, useValue: {} },
+        { provide: PrismaService, useValue: prisma },
+        { provide: SessionService, useValue: sessionService },
+        { provide: JwtService, useValue: {} },
+        { provide: AuthJwtService, useValue: {} },
+        {
+          provide: JwtKeyService,
+          useValue: {
+            getKeyForToken: jest.fn(),
+            getVerificationAlgorithms: () => ['HS256'],
+          },
+        },
+        {
+          provide: PasswordService,
+          useValue: { hashPassword: () => Promise.resolve('new-hash') },
+        },
+        {
+          provide: PasswordPolicyService,
+          useValue: {
+            validate: jest.fn(),
+            recordPreviousPassword: jest.fn(),
+          },
+        },
+        { provide: PermissionService, useValue: { invalidate: jest.fn() } },
+        { provide: AuditService, useValue: { record: jest.fn() } },
+        { provide: EmailVerificationService, useValue: {} },
+        { provide: LoginThrottleService, useValue: {} },
+        { provide: UserTokenService, useValue: {} },
+        { provide: USER_LOOKUP, useValue: {} },
+      ],
+    }).compile();
+
+    strategy = module.get(JwtStrategy);
+    usersService = module.get(UsersService);
+    tokenVersionService = module.get(TokenVersionService);
+  });
+
+  // what AuthJwtService would have put in a token issued right now
+  const issueToken = async (): Promise<JwtPayload> => ({
+    sub: 'user-1',
+    email: 'jane@example.com',
+    jti: 'jti-1',
+    role: 'USER',
+    ver: await tokenVersionService.get('user-1'),
+  });
+
+  it('accepts a token issued at the current version', async () => {
+    const payload = await issueToken();
+
+    await expect(strategy.validate(payload)).resolves.toMatchObject({
+      userId: 'user-1',
+      role: 'USER',
+    });
+  });
+
+  it.each([
+    ['deactivation', { isActive: false }],
+    ['a password change', { password: 'N3w-passphrase!' }],
+    ['a role change', { role: 'ADMIN' as const }],
+  ])('rejects a token issued before %s', async (_change, changes) => {
+    const payload = await issueToken();
+
+    await usersService.update(changes, 'user-1', 'admin-1');
+
+    await expect(strategy.validate(payload)).rejects.toThrow(
+      new UnauthorizedException('Token has been revoked'),
+    );
+    // refused on the version alone, before the session is looked up
+    expect(sessionService.getSession).not.toHaveBeenCalled();
+  });
+});
@@ -1,10 +1,13 @@
-import { Injectable, UnauthorizedException } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
+import { Inject, Injectable, UnauthorizedException } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { SessionService } from '../services/session/session.service';
+import { JwtKeyService } from '../services/jwt/jwt-key.service';
+import { TokenVersionService } from '../services/token-version/token-version.service';
 import { UserRole } from '@prisma/client';
+import { AUTH_MODULE_OPTIONS } from '../auth.module-definition';
+import type { AuthModuleOptions } from '../auth-module-options.interface';
 
 export interface JwtPayload {
   sub: string;
@@ -12,22 +15,33 @@ export interface JwtPayload {
   jti?: string;
   name?: string;
   role?: string;
+  scope?: string;
+  client_id?: string;
+  ver?: number;
 }
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
   constructor(
-    private configService: ConfigService,
     private jwtService: JwtService,
     private sessionService: SessionService,
+    private tokenVersionService: TokenVersionService,
+    jwtKeyService: JwtKeyService,
+    @Inject(AUTH_MODULE_OPTIONS) options: AuthModuleOptions,
   ) {
-    const secret = configService.get<string>('JWT_SECRET');
-    if (!secret) {
-      throw new Error('JWT_SECRET is not defined in environment variables');
-    }
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
-      secretOrKey: secret,
+      // pick the key by the token's kid so rotated-out keys still verify
+      secretOrKeyProvider: (_request, rawJwtToken: string, done) => {
+        const verificationKey = jwtKeyService.getKeyForToken(rawJwtToken);
+        if (!verificationKey) {
+          return done(new UnauthorizedException('Unknown signing key'));
+        }
+        done(null, verificationKey.key);
+      },
+      algorithms: jwtKeyService.getVerificationAlgorithms(),
+      issuer: options.jwt?.issuer,
+      audience: options.jwt?.audience,
       ignoreExpiration: false,
     });
   }
@@ -38,10 +52,17 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       throw new UnauthorizedException('Token missing identifier');
     }
 
-    const sessionExists = await this.sessionService.sessionExists(tokenId);
-    if (!sessionExists) {
+    // role changes, deactivation and password changes bump the version
+    const version = await this.tokenVersionService.get(payload.sub);
+    if ((payload.ver ?? 0) !== version) {
+      throw new UnauthorizedException('Token has been revoked');
+    }
+
+    const session = await this.sessionService.getSession(tokenId);
+    if (!session) {
       throw new UnauthorizedException('Session expired or revoked');
     }
+    await this.sessionService.touchSession(tokenId, session);
 
     return {
       userId: payload.sub,
@@ -49,6 +70,9 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       name: payload.name,
       role: payload.role ?? UserRole.USER,
       tokenId: payload.jti,
+      mfa: session.mfa ?? false,
+      scope: payload.scope,
+      clientId: payload.client_id,
     };
   }
 }
@@ -0,0 +1,47 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from 'prisma/prisma.service';
+import { NewUser, UserChanges, UserLookup } from './user-lookup.interface';
+
+@Injectable()
+export class PrismaUserLookup implements UserLookup {
+  constructor(private prisma: PrismaService) {}
+
+  findByEmail(email: string) {
+    return this.prisma.user.findUnique({ where: { email } });
+  }
+
+  findById(id: string) {
+    return this.prisma.user.findUnique({ where: { id } });
+  }
+
+  // the legacy role column maps onto the role with the same name
+  async findRoles(id: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id },
+      select: { role: true, roles: { select: { name: true } } },
+    });
+    return user ? [user.role, ...user.roles.map((role) => role.name)] : null;
+  }
+
+  create(data: NewUser) {
+    return this.prisma.user.create({ data });
+  }
+
+  async update(id: string, changes: UserChanges) {
+    await this.prisma.user.update({ where: { id }, data: changes });
+  }
+
+  async addRole(id: string, role: string) {
+    await this.prisma.user.update({
+      where: { id },
+      data: { roles: { connect: { name: role } } },
+    });
+  }
+
+  async removeRole(id: string, role: string) {
+    await this.prisma.user.update({
+      where: { id },
+      data: { roles: { disconnect: { name: role } } },
+    });
+  }
+}
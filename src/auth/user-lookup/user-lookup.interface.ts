@@ -0,0 +1,38 @@
+import { User } from '@prisma/client';
+
+export const USER_LOOKUP = 'USER_LOOKUP';
+
+// fields the auth services write back to the user record
+export type UserChanges = Partial<
+  Pick<
+    User,
+    | 'lockedUntil'
+    | 'password'
+    | 'emailVerified'
+    | 'emailVerifiedAt'
+    | 'mfaEnabled'
+    | 'mfaSecret'
+  >
+>;
+
+// an account created by a social login
+export type NewUser = Pick<
+  User,
+  'email' | 'password' | 'emailVerified' | 'emailVerifiedAt'
+> &
+  Partial<Pick<User, 'name'>>;
+
+/**
+ * How the auth services find and change users, so a service with its own
+ * user store can reuse AuthModule without our UsersService
+ */
+export interface UserLookup {
+  findByEmail(email: string): Promise<User | null>;
+  findById(id: string): Promise<User | null>;
+  // `role` plus any extra roles, or null for an unknown user
+  findRoles(id: string): Promise<string[] | null>;
+  create(data: NewUser): Promise<User>;
+  update(id: string, changes: UserChanges): Promise<void>;
+  addRole(id: string, role: string): Promise<void>;
+  removeRole(id: string, role: string): Promise<void>;
+}
@@ -1,11 +1,44 @@
 import { Module } from '@nestjs/common';
+import { APP_FILTER, APP_INTERCEPTOR } from '@nestjs/core';
 import { PasswordService } from './services/password.service';
 import { RedisService } from './services/redis.service';
 import { ConfigModule } from '@nestjs/config';
+import type { ConfigType } from '@nestjs/config';
+import mailConfig from 'src/config/mail.config';
+import passwordConfig from 'src/config/password.config';
+import redisConfig from 'src/config/redis.config';
+import { MailService } from './services/mail.service';
+import { RateLimitService } from './services/rate-limit.service';
+import { MAIL_TRANSPORT, MailTransport } from './mail/mail-transport.interface';
+import { ConsoleMailTransport } from './mail/console-mail.transport';
+import { SmtpMailTransport } from './mail/smtp-mail.transport';
+import { TooManyRequestsFilter } from './filters/too-many-requests.filter';
+import { SerializerInterceptor } from './interceptors/serializer.interceptor';
 
 @Module({
-  imports: [ConfigModule],
-  providers: [PasswordService, RedisService],
-  exports: [PasswordService, RedisService],
+  imports: [
+    ConfigModule.forFeature(mailConfig),
+    ConfigModule.forFeature(passwordConfig),
+    ConfigModule.forFeature(redisConfig),
+  ],
+  providers: [
+    PasswordService,
+    RedisService,
+    MailService,
+    RateLimitService,
+    { provide: APP_FILTER, useClass: TooManyRequestsFilter },
+    // strips anything response classes don't @Expose
+    { provide: APP_INTERCEPTOR, useClass: SerializerInterceptor },
+    {
+      provide: MAIL_TRANSPORT,
+      // MAIL_TRANSPORT=smtp sends real mail, console (the default) logs it
+      useFactory: (config: ConfigType<typeof mailConfig>): MailTransport =>
+        config.transport === 'smtp'
+          ? new SmtpMailTransport(config.smtp)
+          : new ConsoleMailTransport(config.filePath),
+      inject: [mailConfig.KEY],
+    },
+  ],
+  exports: [PasswordService, RedisService, MailService, RateLimitService],
 })
 export class CommonModule {}
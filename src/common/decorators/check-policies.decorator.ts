@@ -0,0 +1,11 @@
+import { SetMetadata, Type } from '@nestjs/common';
+import type {
+  PolicyHandler,
+  PolicyHandlerCallback,
+} from 'src/auth/policies/policy-handler.interface';
+
+export const CHECK_POLICIES_KEY = 'checkPolicies';
+export type PolicyRule = PolicyHandlerCallback | Type<PolicyHandler>;
+// every policy must pass, e.g. @CheckPolicies((ability) => ability.can('read', 'AuditEvent'))
+export const CheckPolicies = (...handlers: PolicyRule[]) =>
+  SetMetadata(CHECK_POLICIES_KEY, handlers);
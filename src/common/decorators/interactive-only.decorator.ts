@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const INTERACTIVE_ONLY_KEY = 'interactiveOnly';
+// the route needs a real login; API keys are refused whatever their scopes,
+// e.g. for changing credentials or MFA
+export const InteractiveOnly = () => SetMetadata(INTERACTIVE_ONLY_KEY, true);
@@ -0,0 +1,7 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const OAUTH_CLIENT_ACCESS_KEY = 'oauthClientAccess';
+// access tokens issued to an OAuth client are refused everywhere else, since
+// their scopes describe the user's profile and not API permissions
+export const OAuthClientAccess = () =>
+  SetMetadata(OAUTH_CLIENT_ACCESS_KEY, true);
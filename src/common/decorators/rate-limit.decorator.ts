@@ -0,0 +1,18 @@
+import { SetMetadata } from '@nestjs/common';
+import type { Request } from 'express';
+
+export const RATE_LIMIT_KEY = 'rateLimit';
+
+export interface RateLimitOptions {
+  // requests allowed per window
+  points: number;
+  // window length in seconds
+  duration: number;
+  // who the limit applies to; 'user' falls back to the IP when anonymous
+  key?: 'ip' | 'user' | ((request: Request) => string);
+  // bucket name, defaults to the controller and handler name
+  name?: string;
+}
+
+export const RateLimit = (options: RateLimitOptions) =>
+  SetMetadata(RATE_LIMIT_KEY, options);
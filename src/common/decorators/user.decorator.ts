@@ -7,6 +7,12 @@ export interface AuthenticatedUser {
   name?: string;
   role?: UserRole;
   tokenId?: string;
+  mfa?: boolean;
+  // present when the token was issued to an OAuth client; for API keys
+  // `scope` holds the permissions the key is limited to
+  scope?: string;
+  clientId?: string;
+  apiKeyId?: string;
 }
 
 export const User = createParamDecorator(
@@ -0,0 +1,28 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+// error codes from RFC 6749 section 5.2 and RFC 6750 section 3.1
+export type OAuthErrorCode =
+  | 'invalid_request'
+  | 'invalid_client'
+  | 'invalid_grant'
+  | 'invalid_scope'
+  | 'unauthorized_client'
+  | 'unsupported_grant_type'
+  | 'unsupported_response_type'
+  | 'access_denied'
+  | 'invalid_token'
+  | 'insufficient_scope';
+
+/**
+ * Error in the shape OAuth clients expect: `{ error, error_description }`
+ * instead of Nest's `{ statusCode, message }`
+ */
+export class OAuthException extends HttpException {
+  constructor(
+    public readonly error: OAuthErrorCode,
+    description: string,
+    status = HttpStatus.BAD_REQUEST,
+  ) {
+    super({ error, error_description: description }, status);
+  }
+}
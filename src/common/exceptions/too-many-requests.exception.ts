@@ -0,0 +1,21 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export class TooManyRequestsException extends HttpException {
+  /**
+   * @param retryAfter - Seconds until the client may try again
+   * @param message - Error message sent in the response body
+   */
+  constructor(
+    public readonly retryAfter: number,
+    message = 'Too many requests, please try again later',
+  ) {
+    super(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        message,
+        error: 'Too Many Requests',
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { Controller, Get, INestApplication } from '@nestjs/common';
+import { APP_FILTER, APP_GUARD } from '@nestjs/core';
+import { Test } from '@nestjs/testing';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { RateLimitGuard } from 'src/auth/guards/rate-limit.guard';
+import redisConfig from 'src/config/redis.config';
+import { RateLimit } from '../decorators/rate-limit.decorator';
+import { TooManyRequestsException } from '../exceptions/too-many-requests.exception';
+import { RateLimitService } from '../services/rate-limit.service';
+import { RedisService } from '../services/redis.service';
+import { TooManyRequestsFilter } from './too-many-requests.filter';
+
+@Controller()
+class PingController {
+  @Get('ping')
+  @RateLimit({ points: 2, duration: 60, key: 'ip' })
+  ping() {
+    return { ok: true };
+  }
+
+  @Get('locked')
+  locked() {
+    throw new TooManyRequestsException(0, 'Account temporarily locked');
+  }
+}
+
+describe('TooManyRequestsFilter', () => {
+  let app: INestApplication<App>;
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      controllers: [PingController],
+      providers: [
+        RateLimitService,
+        RedisService,
+        { provide: redisConfig.KEY, useValue: { enabled: false } },
+        { provide: APP_GUARD, useClass: RateLimitGuard },
+        { provide: APP_FILTER, useClass: TooManyRequestsFilter },
+      ],
+    }).compile();
+
+    app = module.createNestApplication({ logger: false });
+    await app.init();
+  });
+
+  afterEach(() => app.close());
+
+  it('answers 429 with Retry-After once the limit is used up', async () => {
+    const server = app.getHttpServer();
+
+    await request(server)
+      .get('/ping')
+      .expect(200)
+      .expect('X-RateLimit-Limit', '2')
+      .expect('X-RateLimit-Remaining', '1');
+    await request(server).get('/ping').expect(200);
+
+    const response = await request(server)
+      .get('/ping')
+      .expect(429)
+      .expect('X-RateLimit-Remaining', '0');
+
+    const retryAfter = Number(response.headers['retry-after']);
+    expect(retryAfter).toBeGreaterThan(0);
+    expect(retryAfter).toBeLessThanOrEqual(60);
+    expect(response.body).toEqual({
+      statusCode: 429,
+      message: 'Too many requests, please try again later',
+      error: 'Too Many Requests',
+    });
+  });
+
+  it('never tells clients to retry immediately', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/locked')
+      .expect(429)
+      .expect('Retry-After', '1');
+
+    expect(response.body).toMatchObject({
+      message: 'Account temporarily locked',
+    });
+  });
+});
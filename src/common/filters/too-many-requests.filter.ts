@@ -0,0 +1,16 @@
+import { ArgumentsHost, Catch, ExceptionFilter } from '@nestjs/common';
+import { Response } from 'express';
+import { TooManyRequestsException } from '../exceptions/too-many-requests.exception';
+
+// adds the Retry-After header that clients need to back off properly
+@Catch(TooManyRequestsException)
+export class TooManyRequestsFilter implements ExceptionFilter {
+  catch(exception: TooManyRequestsException, host: ArgumentsHost) {
+    const response = host.switchToHttp().getResponse<Response>();
+
+    response
+      .status(exception.getStatus())
+      .setHeader('Retry-After', String(Math.max(1, exception.retryAfter)))
+      .json(exception.getResponse());
+  }
+}
@@ -0,0 +1,38 @@
+import * as argon2 from 'argon2';
+import { PasswordHasher } from './password-hasher.interface';
+
+export interface Argon2Options {
+  // KiB
+  memoryCost: number;
+  timeCost: number;
+  parallelism: number;
+}
+
+export class Argon2PasswordHasher implements PasswordHasher {
+  readonly algorithm = 'argon2id';
+
+  constructor(private readonly options: Argon2Options) {}
+
+  hash(password: string): Promise<string> {
+    return argon2.hash(password, { ...this.options, type: argon2.argon2id });
+  }
+
+  async verify(password: string, hash: string): Promise<boolean> {
+    try {
+      return await argon2.verify(hash, password);
+    } catch {
+      return false;
+    }
+  }
+
+  canVerify(hash: string): boolean {
+    return hash.startsWith('$argon2');
+  }
+
+  // argon2i/argon2d hashes and lower costs are both upgraded
+  needsRehash(hash: string): boolean {
+    return (
+      !hash.startsWith('$argon2id$') || argon2.needsRehash(hash, this.options)
+    );
+  }
+}
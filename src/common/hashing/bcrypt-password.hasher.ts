@@ -0,0 +1,24 @@
+import * as bcrypt from 'bcryptjs';
+import { PasswordHasher } from './password-hasher.interface';
+
+export class BcryptPasswordHasher implements PasswordHasher {
+  readonly algorithm = 'bcrypt';
+
+  constructor(private readonly rounds: number) {}
+
+  hash(password: string): Promise<string> {
+    return bcrypt.hash(password, this.rounds);
+  }
+
+  verify(password: string, hash: string): Promise<boolean> {
+    return bcrypt.compare(password, hash);
+  }
+
+  canVerify(hash: string): boolean {
+    return /^\$2[aby]\$\d{2}\$/.test(hash);
+  }
+
+  needsRehash(hash: string): boolean {
+    return bcrypt.getRounds(hash) < this.rounds;
+  }
+}
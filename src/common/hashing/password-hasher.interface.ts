@@ -0,0 +1,11 @@
+// stored hashes are self-describing (`$2b$10$...`, `$argon2id$v=19$m=...`),
+// so each hasher can tell which hashes it owns and whether they're outdated
+export interface PasswordHasher {
+  readonly algorithm: string;
+  hash(password: string): Promise<string>;
+  verify(password: string, hash: string): Promise<boolean>;
+  // whether the hash was produced by this algorithm
+  canVerify(hash: string): boolean;
+  // whether the hash was produced with weaker parameters than configured
+  needsRehash(hash: string): boolean;
+}
@@ -0,0 +1,48 @@
+import {
+  ClassSerializerInterceptor,
+  ExecutionContext,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { UserRole } from '@prisma/client';
+import { AuthenticatedUser } from '../decorators/user.decorator';
+
+// class-transformer groups response classes expose their fields under
+export const SerializationGroup = {
+  // anyone who may see the record at all
+  PUBLIC: 'public',
+  // the user the record belongs to
+  SELF: 'self',
+  ADMIN: 'admin',
+} as const;
+
+/**
+ * ClassSerializerInterceptor that also picks groups from the caller: admins
+ * get ADMIN, and a request for `/:id` of the caller's own record gets SELF.
+ * Routes can add more with @SerializeOptions({ groups }).
+ */
+@Injectable()
+export class SerializerInterceptor extends ClassSerializerInterceptor {
+  constructor(reflector: Reflector) {
+    super(reflector);
+  }
+
+  protected getContextOptions(context: ExecutionContext) {
+    const options = super.getContextOptions(context) ?? {};
+    const request = context.switchToHttp().getRequest<{
+      user?: AuthenticatedUser;
+      params?: Record<string, string>;
+    }>();
+
+    const groups = new Set<string>(options.groups ?? []);
+    groups.add(SerializationGroup.PUBLIC);
+    if (request.user?.role === UserRole.ADMIN) {
+      groups.add(SerializationGroup.ADMIN);
+    }
+    if (request.user && request.params?.id === request.user.userId) {
+      groups.add(SerializationGroup.SELF);
+    }
+
+    return { ...options, groups: [...groups] };
+  }
+}
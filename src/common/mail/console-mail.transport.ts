@@ -0,0 +1,28 @@
+import { Logger } from '@nestjs/common';
+import { appendFile } from 'fs/promises';
+import { MailMessage, MailTransport } from './mail-transport.interface';
+
+/**
+ * Development transport: prints every mail to the log and, when a file path
+ * is given, appends it there so tokens can be picked up by scripts.
+ */
+export class ConsoleMailTransport implements MailTransport {
+  private readonly logger = new Logger(ConsoleMailTransport.name);
+
+  constructor(private readonly filePath?: string) {}
+
+  async send(from: string, message: MailMessage): Promise<void> {
+    const entry = [
+      `From: ${from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      '',
+      message.text,
+    ].join('\n');
+
+    if (this.filePath) {
+      await appendFile(this.filePath, `${entry}\n\n`);
+    }
+    this.logger.log(`\n${entry}`);
+  }
+}
@@ -0,0 +1,12 @@
+export const MAIL_TRANSPORT = 'MAIL_TRANSPORT';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(from: string, message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,29 @@
+import { createTransport, Transporter } from 'nodemailer';
+import { MailMessage, MailTransport } from './mail-transport.interface';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+export class SmtpMailTransport implements MailTransport {
+  private readonly transporter: Transporter;
+
+  constructor(options: SmtpOptions) {
+    this.transporter = createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user
+        ? { user: options.user, pass: options.password }
+        : undefined,
+    });
+  }
+
+  async send(from: string, message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from, ...message });
+  }
+}
@@ -0,0 +1,25 @@
+import { Inject, Injectable } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import mailConfig from 'src/config/mail.config';
+import { MAIL_TRANSPORT, MailMessage } from '../mail/mail-transport.interface';
+import type { MailTransport } from '../mail/mail-transport.interface';
+
+@Injectable()
+export class MailService {
+  private readonly from: string;
+
+  constructor(
+    @Inject(MAIL_TRANSPORT) private transport: MailTransport,
+    @Inject(mailConfig.KEY) config: ConfigType<typeof mailConfig>,
+  ) {
+    this.from = config.from;
+  }
+
+  /**
+   * Send a mail through the configured transport
+   * @param message - Recipient, subject and body of the mail
+   */
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.send(this.from, message);
+  }
+}
@@ -0,0 +1,43 @@
+import { MemoryKeyValueStore } from './memory-key-value.store';
+
+describe('MemoryKeyValueStore', () => {
+  let store: MemoryKeyValueStore;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T08:00:00Z') });
+    store = new MemoryKeyValueStore();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('expires values after their ttl', () => {
+    store.set('otp', 'value', 30);
+    expect(store.get('otp')).toBe('value');
+    expect(store.ttl('otp')).toBe(30);
+
+    jest.advanceTimersByTime(30_000);
+    expect(store.get('otp')).toBeNull();
+    expect(store.ttl('otp')).toBe(-2);
+  });
+
+  it('keeps the window of a counter while it is incremented', () => {
+    expect(store.incr('attempts')).toBe(1);
+    store.expire('attempts', 60);
+    jest.advanceTimersByTime(40_000);
+
+    expect(store.incr('attempts')).toBe(2);
+    jest.advanceTimersByTime(20_000);
+    expect(store.incr('attempts')).toBe(1);
+  });
+
+  it('adds and removes set members', () => {
+    expect(store.sadd('sessions', ['a', 'b', 'a'])).toBe(2);
+    expect(store.srem('sessions', ['a', 'missing'])).toBe(1);
+    expect(store.smembers('sessions')).toEqual(['b']);
+
+    store.srem('sessions', ['b']);
+    expect(store.exists('sessions')).toBe(0);
+  });
+});
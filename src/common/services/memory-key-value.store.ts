@@ -0,0 +1,115 @@
+interface StoredValue {
+  value: string | Set<string>;
+  // unix time (ms); kept forever when undefined
+  expiresAt?: number;
+}
+
+/**
+ * The handful of redis commands RedisService uses, kept in process memory.
+ * Only for single-instance deployments that keep sessions in memory as well
+ * (SESSION_STORE=memory): nothing survives a restart or is shared between
+ * instances.
+ */
+export class MemoryKeyValueStore {
+  private readonly entries = new Map<string, StoredValue>();
+  private writes = 0;
+  // writes between sweeps of expired keys nobody reads again
+  private readonly sweepEvery = 1000;
+
+  // expired entries are dropped lazily, whenever they're looked at
+  private read(key: string): StoredValue | undefined {
+    const entry = this.entries.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private write(key: string, entry: StoredValue) {
+    this.entries.set(key, entry);
+    if (++this.writes % this.sweepEvery === 0) {
+      for (const stored of [...this.entries.keys()]) {
+        this.read(stored);
+      }
+    }
+  }
+
+  private readSet(key: string): Set<string> | undefined {
+    const entry = this.read(key);
+    return entry?.value instanceof Set ? entry.value : undefined;
+  }
+
+  set(key: string, value: string, ttl?: number) {
+    this.write(key, {
+      value,
+      expiresAt: ttl ? Date.now() + ttl * 1000 : undefined,
+    });
+  }
+
+  get(key: string): string | null {
+    const entry = this.read(key);
+    return typeof entry?.value === 'string' ? entry.value : null;
+  }
+
+  del(...keys: string[]): number {
+    return keys.filter((key) => this.read(key) && this.entries.delete(key))
+      .length;
+  }
+
+  exists(key: string): number {
+    return this.read(key) ? 1 : 0;
+  }
+
+  // like INCR, the expiry of an existing counter is kept
+  incr(key: string): number {
+    const entry = this.read(key);
+    const value = Number(typeof entry?.value === 'string' ? entry.value : 0);
+    this.write(key, { value: String(value + 1), expiresAt: entry?.expiresAt });
+    return value + 1;
+  }
+
+  expire(key: string, seconds: number): number {
+    const entry = this.read(key);
+    if (!entry) {
+      return 0;
+    }
+    entry.expiresAt = Date.now() + seconds * 1000;
+    return 1;
+  }
+
+  ttl(key: string): number {
+    const entry = this.read(key);
+    if (!entry) {
+      return -2;
+    }
+    if (entry.expiresAt === undefined) {
+      return -1;
+    }
+    return Math.ceil((entry.expiresAt - Date.now()) / 1000);
+  }
+
+  sadd(key: string, members: string[]): number {
+    const set = this.readSet(key) ?? new Set<string>();
+    const size = set.size;
+    members.forEach((member) => set.add(member));
+    this.write(key, { value: set, expiresAt: this.read(key)?.expiresAt });
+    return set.size - size;
+  }
+
+  srem(key: string, members: string[]): number {
+    const set = this.readSet(key);
+    if (!set) {
+      return 0;
+    }
+    const removed = members.filter((member) => set.delete(member)).length;
+    if (set.size === 0) {
+      this.entries.delete(key);
+    }
+    return removed;
+  }
+
+  smembers(key: string): string[] {
+    return [...(this.readSet(key) ?? [])];
+  }
+}
@@ -0,0 +1,40 @@
+import passwordConfig from 'src/config/password.config';
+import { PasswordService } from './password.service';
+
+describe('PasswordService', () => {
+  // cheap parameters keep the suite fast
+  const create = (values: Partial<ReturnType<typeof passwordConfig>> = {}) =>
+    new PasswordService({
+      ...passwordConfig(),
+      bcryptSaltRounds: 4,
+      argon2: { memoryCost: 1024, timeCost: 2, parallelism: 1 },
+      ...values,
+    });
+
+  const bcrypt = create();
+  const argon2 = create({ hashAlgorithm: 'argon2id' });
+
+  it('verifies hashes from either algorithm', async () => {
+    const bcryptHash = await bcrypt.hashPassword('correct horse');
+    const argon2Hash = await argon2.hashPassword('correct horse');
+
+    expect(argon2Hash.startsWith('$argon2id$')).toBe(true);
+    await expect(
+      argon2.comparePassword('correct horse', bcryptHash),
+    ).resolves.toBe(true);
+    await expect(
+      bcrypt.comparePassword('correct horse', argon2Hash),
+    ).resolves.toBe(true);
+    await expect(bcrypt.comparePassword('wrong', argon2Hash)).resolves.toBe(
+      false,
+    );
+  });
+
+  it('flags hashes from another algorithm or a lower cost', async () => {
+    const bcryptHash = await bcrypt.hashPassword('correct horse');
+
+    expect(bcrypt.needsRehash(bcryptHash)).toBe(false);
+    expect(argon2.needsRehash(bcryptHash)).toBe(true);
+    expect(create({ bcryptSaltRounds: 5 }).needsRehash(bcryptHash)).toBe(true);
+  });
+});
@@ -1,9 +1,35 @@
-import { Injectable } from '@nestjs/common';
-import * as bcrypt from 'bcryptjs';
+import { Inject, Injectable } from '@nestjs/common';
+import type { ConfigType } from '@nestjs/config';
+import passwordConfig from 'src/config/password.config';
+import { Argon2PasswordHasher } from '../hashing/argon2-password.hasher';
+import { BcryptPasswordHasher } from '../hashing/bcrypt-password.hasher';
+import { PasswordHasher } from '../hashing/password-hasher.interface';
 
+/**
+ * Hashes new passwords with PASSWORD_HASH_ALGORITHM (bcrypt or argon2id) and
+ * verifies hashes made by either, so the algorithm or its cost can change
+ * without invalidating existing passwords.
+ */
 @Injectable()
 export class PasswordService {
-  private readonly saltRounds = 10;
+  private readonly hashers: PasswordHasher[];
+  private readonly current: PasswordHasher;
+
+  constructor(
+    @Inject(passwordConfig.KEY) config: ConfigType<typeof passwordConfig>,
+  ) {
+    const bcrypt = new BcryptPasswordHasher(config.bcryptSaltRounds);
+    const argon2 = new Argon2PasswordHasher(config.argon2);
+    this.hashers = [bcrypt, argon2];
+
+    const current = this.hashers.find(
+      (hasher) => hasher.algorithm === config.hashAlgorithm,
+    );
+    if (!current) {
+      throw new Error('PASSWORD_HASH_ALGORITHM must be bcrypt or argon2id');
+    }
+    this.current = current;
+  }
 
   /**
    * Hash a plaintext password
@@ -11,7 +37,7 @@ export class PasswordService {
    * @returns Hashed password
    */
   async hashPassword(password: string): Promise<string> {
-    return await bcrypt.hash(password, this.saltRounds);
+    return await this.current.hash(password);
   }
 
   //compare the password with hashed passowrd
@@ -19,6 +45,17 @@ export class PasswordService {
     plainPassword: string,
     hashedPassword: string,
   ): Promise<boolean> {
-    return bcrypt.compare(plainPassword, hashedPassword);
+    const hasher = this.hashers.find((candidate) =>
+      candidate.canVerify(hashedPassword),
+    );
+    return hasher ? hasher.verify(plainPassword, hashedPassword) : false;
+  }
+
+  // true when the hash uses another algorithm or weaker parameters
+  needsRehash(hashedPassword: string): boolean {
+    return (
+      !this.current.canVerify(hashedPassword) ||
+      this.current.needsRehash(hashedPassword)
+    );
   }
 }
@@ -0,0 +1,120 @@
+import { randomUUID } from 'crypto';
+import { RateLimitResult, RateLimitService } from './rate-limit.service';
+import { RedisService } from './redis.service';
+
+// the Lua script and the in-memory fallback must count the same way
+function describeRateLimiter(
+  name: string,
+  createRedis: () => RedisService,
+  enabled = true,
+) {
+  (enabled ? describe : describe.skip)(name, () => {
+    let redis: RedisService;
+    let service: RateLimitService;
+    let now: number;
+    let bucket: string;
+
+    beforeEach(() => {
+      redis = createRedis();
+      service = new RateLimitService(redis);
+      now = 1_800_000_000_000;
+      jest.spyOn(Date, 'now').mockImplementation(() => now);
+      // unique per test, so runs against a shared redis don't collide
+      bucket = `spec:${randomUUID()}`;
+    });
+
+    afterEach(async () => {
+      jest.restoreAllMocks();
+      await redis.onModuleDestroy();
+    });
+
+    it('allows the configured number of requests, then refuses', async () => {
+      const results: RateLimitResult[] = [];
+      for (let i = 0; i < 4; i++) {
+        results.push(await service.consume(bucket, 3, 60));
+        now += 1000;
+      }
+
+      expect(results.map((result) => result.allowed)).toEqual([
+        true,
+        true,
+        true,
+        false,
+      ]);
+      expect(results.map((result) => result.remaining)).toEqual([2, 1, 0, 0]);
+      expect(results[3]).toMatchObject({
+        limit: 3,
+        // the first request leaves the window a minute after it was made
+        resetAt: 1_800_000_000_000 + 60_000,
+      });
+    });
+
+    it('frees a slot once the oldest request slides out of the window', async () => {
+      await service.consume(bucket, 2, 60);
+      now += 30_000;
+      await service.consume(bucket, 2, 60);
+      await expect(service.consume(bucket, 2, 60)).resolves.toMatchObject({
+        allowed: false,
+      });
+
+      now += 30_001;
+      const result = await service.consume(bucket, 2, 60);
+
+      expect(result).toMatchObject({ allowed: true, remaining: 0 });
+      // now the second request is the oldest one left
+      expect(result.resetAt).toBe(1_800_000_000_000 + 30_000 + 60_000);
+    });
+
+    it('does not count refused requests', async () => {
+      await service.consume(bucket, 1, 60);
+      for (let i = 0; i < 5; i++) {
+        now += 10_000;
+        await service.consume(bucket, 1, 60);
+      }
+
+      now = 1_800_000_000_000 + 60_001;
+      await expect(service.consume(bucket, 1, 60)).resolves.toMatchObject({
+        allowed: true,
+      });
+    });
+
+    it('keeps buckets apart', async () => {
+      await service.consume(`${bucket}:a`, 1, 60);
+
+      await expect(
+        service.consume(`${bucket}:b`, 1, 60),
+      ).resolves.toMatchObject({ allowed: true });
+      await expect(
+        service.consume(`${bucket}:a`, 1, 60),
+      ).resolves.toMatchObject({ allowed: false });
+    });
+  });
+}
+
+describe('RateLimitService', () => {
+  describeRateLimiter(
+    'without redis',
+    () =>
+      new RedisService({
+        enabled: false,
+        host: 'localhost',
+        port: 6379,
+        password: undefined,
+      }),
+  );
+
+  // runs the Lua script against a real server, e.g.
+  // TEST_REDIS_HOST=localhost npm test
+  const redisHost = process.env.TEST_REDIS_HOST;
+  describeRateLimiter(
+    'with redis',
+    () =>
+      new RedisService({
+        enabled: true,
+        host: redisHost as string,
+        port: 6379,
+        password: undefined,
+      }),
+    !!redisHost,
+  );
+});
@@ -0,0 +1,95 @@
+import { Injectable } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { RedisService } from './redis.service';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // unix time (ms) at which the oldest counted request leaves the window
+  resetAt: number;
+}
+
+// sliding window log: prune, count and record in one atomic step
+const SLIDING_WINDOW_SCRIPT = `
+local key = KEYS[1]
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', key, 0, now - window)
+local count = redis.call('ZCARD', key)
+local allowed = 0
+if count < limit then
+  redis.call('ZADD', key, now, ARGV[4])
+  count = count + 1
+  allowed = 1
+end
+redis.call('PEXPIRE', key, window)
+local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+local resetAt = now + window
+if oldest[2] then
+  resetAt = tonumber(oldest[2]) + window
+end
+return { allowed, count, resetAt }
+`;
+
+@Injectable()
+export class RateLimitService {
+  private readonly prefix = 'rate_limit:';
+  // request times per bucket, used when redis is not configured
+  private readonly windows = new Map<string, number[]>();
+
+  constructor(private redisService: RedisService) {}
+
+  /**
+   * Count a request against a sliding window
+   * @param key - Bucket the request belongs to
+   * @param points - Requests allowed per window
+   * @param duration - Window length in seconds
+   */
+  async consume(
+    key: string,
+    points: number,
+    duration: number,
+  ): Promise<RateLimitResult> {
+    const now = Date.now();
+    const member = `${now}-${randomBytes(4).toString('hex')}`;
+
+    const [allowed, count, resetAt] = this.redisService.isEnabled()
+      ? ((await this.redisService.eval(
+          SLIDING_WINDOW_SCRIPT,
+          [`${this.prefix}${key}`],
+          [now, duration * 1000, points, member],
+        )) as [number, number, number])
+      : this.consumeInMemory(key, now, duration * 1000, points);
+
+    return {
+      allowed: allowed === 1,
+      limit: points,
+      remaining: Math.max(0, points - count),
+      resetAt,
+    };
+  }
+
+  // the same steps as SLIDING_WINDOW_SCRIPT, for a single process
+  private consumeInMemory(
+    key: string,
+    now: number,
+    window: number,
+    limit: number,
+  ): [number, number, number] {
+    const times = (this.windows.get(key) ?? []).filter(
+      (time) => time > now - window,
+    );
+    const allowed = times.length < limit;
+    if (allowed) {
+      times.push(now);
+    }
+    if (times.length > 0) {
+      this.windows.set(key, times);
+    } else {
+      this.windows.delete(key);
+    }
+    return [allowed ? 1 : 0, times.length, (times[0] ?? now) + window];
+  }
+}
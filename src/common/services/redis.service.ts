@@ -1,20 +1,39 @@
-import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
 import { Redis } from 'ioredis';
-import { ConfigService } from '@nestjs/config';
+import type { ConfigType } from '@nestjs/config';
+import redisConfig from 'src/config/redis.config';
+import { MemoryKeyValueStore } from './memory-key-value.store';
 
+/**
+ * Redis for rate limits, login throttling, caches and short-lived state.
+ * With SESSION_STORE=memory and no REDIS_HOST (see redisConfig) the same
+ * commands run against process memory, which only suits a single instance.
+ */
 @Injectable()
 export class RedisService implements OnModuleInit, OnModuleDestroy {
-  private client: Redis;
-
-  constructor(private configService: ConfigService) {
-    const host = this.configService.get<string>('REDIS_HOST', 'localhost');
-    const port = this.configService.get<number>('REDIS_PORT', 6379);
-    const password = this.configService.get<string>('REDIS_PASSWORD');
+  private readonly logger = new Logger(RedisService.name);
+  private readonly client: Redis | null = null;
+  // only used when redis is not configured
+  private readonly memory = new MemoryKeyValueStore();
 
+  constructor(
+    @Inject(redisConfig.KEY) private config: ConfigType<typeof redisConfig>,
+  ) {
+    if (!config.enabled) {
+      return;
+    }
     this.client = new Redis({
-      host,
-      port,
-      password: password || undefined,
+      host: config.host,
+      port: config.port,
+      password: config.password,
+      // connect on first use, so building the module doesn't need a server
+      lazyConnect: true,
       retryStrategy: (times) => {
         const delay = Math.min(times * 50, 2000);
         return delay;
@@ -22,27 +41,51 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     });
   }
 
+  // refuse to boot when the configured redis can't be reached, rather than
+  // failing on every request later
   async onModuleInit() {
-    // Test connection
+    if (!this.client) {
+      this.logger.warn(
+        'Redis is not configured; token versions, rate limits, throttling and caches are kept in memory',
+      );
+      return;
+    }
     try {
+      if (this.client.status === 'wait') {
+        await this.client.connect();
+      }
       await this.client.ping();
-      console.log('✅ Redis connected successfully');
     } catch (error) {
-      console.error('❌ Redis connection failed:', error);
+      this.client.disconnect();
+      throw new Error(
+        `Redis is unreachable at ${this.config.host}:${this.config.port}: ${(error as Error).message}`,
+      );
     }
+    this.logger.log('Redis connected');
   }
 
   async onModuleDestroy() {
-    await this.client.quit();
+    await this.client?.quit();
+  }
+
+  // false when running on the in-memory fallback
+  isEnabled(): boolean {
+    return !!this.client;
   }
 
   // Get redis client
   getClient(): Redis {
+    if (!this.client) {
+      throw new Error('Redis is not configured');
+    }
     return this.client;
   }
 
   // set a key value pair with optionla Ttl
   async set(key: string, value: string, ttl?: number): Promise<void> {
+    if (!this.client) {
+      return this.memory.set(key, value, ttl);
+    }
     if (ttl) {
       await this.client.setex(key, ttl, value);
     } else {
@@ -52,21 +95,92 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
 
   // get a value by the key
   async get(key: string): Promise<string | null> {
+    if (!this.client) {
+      return this.memory.get(key);
+    }
     return this.client.get(key);
   }
 
-  // delete a key
-  async del(key: string): Promise<number> {
-    return this.client.del(key);
+  // delete one or more keys
+  async del(...keys: string[]): Promise<number> {
+    if (keys.length === 0) {
+      return 0;
+    }
+    if (!this.client) {
+      return this.memory.del(...keys);
+    }
+    return this.client.del(...keys);
   }
 
   //check if key exists
   async exists(key: string): Promise<number> {
+    if (!this.client) {
+      return this.memory.exists(key);
+    }
     return this.client.exists(key);
   }
 
+  // increment a counter, starting its ttl when the key is new
+  async incr(key: string, ttl?: number): Promise<number> {
+    const value = this.client
+      ? await this.client.incr(key)
+      : this.memory.incr(key);
+    if (value === 1 && ttl) {
+      await this.expire(key, ttl);
+    }
+    return value;
+  }
+
   // set expiration on existing key
   async expire(key: string, seconds: number): Promise<number> {
+    if (!this.client) {
+      return this.memory.expire(key, seconds);
+    }
     return this.client.expire(key, seconds);
   }
+
+  // remaining time to live of a key in seconds (-1 no expiry, -2 missing)
+  async ttl(key: string): Promise<number> {
+    if (!this.client) {
+      return this.memory.ttl(key);
+    }
+    return this.client.ttl(key);
+  }
+
+  // add members to a set
+  async sadd(key: string, ...members: string[]): Promise<number> {
+    if (!this.client) {
+      return this.memory.sadd(key, members);
+    }
+    return this.client.sadd(key, ...members);
+  }
+
+  // remove members from a set
+  async srem(key: string, ...members: string[]): Promise<number> {
+    if (members.length === 0) {
+      return 0;
+    }
+    if (!this.client) {
+      return this.memory.srem(key, members);
+    }
+    return this.client.srem(key, ...members);
+  }
+
+  // get all members of a set
+  async smembers(key: string): Promise<string[]> {
+    if (!this.client) {
+      return this.memory.smembers(key);
+    }
+    return this.client.smembers(key);
+  }
+
+  // run a lua script atomically on the server; check isEnabled() first,
+  // there is no in-memory fallback for scripts
+  async eval(
+    script: string,
+    keys: string[],
+    args: (string | number)[],
+  ): Promise<unknown> {
+    return this.getClient().eval(script, keys.length, ...keys, ...args);
+  }
 }
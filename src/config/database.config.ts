@@ -0,0 +1,6 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('database', () => ({
+  // required by the env schema, so always set once ConfigModule has loaded
+  url: process.env.DATABASE_URL as string,
+}));
@@ -0,0 +1,12 @@
+// the env schema has already checked these values, so they only need
+// converting; empty values count as unset, as they always have
+
+export const envNumber = (key: string): number | undefined => {
+  const value = process.env[key];
+  return value ? Number(value) : undefined;
+};
+
+export const envFlag = (key: string): boolean | undefined => {
+  const value = process.env[key];
+  return value ? value === 'true' : undefined;
+};
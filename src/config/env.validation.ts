@@ -0,0 +1,365 @@
+import { applyDecorators } from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { existsSync } from 'fs';
+import { plainToInstance, Transform } from 'class-transformer';
+import {
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Matches,
+  Max,
+  Min,
+  MinLength,
+  ValidateIf,
+  validateSync,
+} from 'class-validator';
+import { JWT_ALGORITHMS } from 'src/auth/services/jwt/jwt-key.service';
+import {
+  isOAuthPreset,
+  parseOAuthProviderNames,
+} from 'src/auth/services/oauth/oauth-provider.config';
+
+export const JWT_SECRET_MIN_LENGTH = 32;
+
+// what jsonwebtoken accepts for expiresIn, e.g. "900", "15m" or "2 days"
+const DURATION =
+  /^\d+(\.\d+)? *(ms|s|m|h|d|w|y|(milli)?seconds?|minutes?|hours?|days?|weeks?|years?)?$/i;
+
+const BOOLEAN = ['true', 'false'];
+
+const Positive = () => applyDecorators(IsOptional(), IsInt(), Min(1));
+const Seconds = Positive;
+const Count = () => applyDecorators(IsOptional(), IsInt(), Min(0));
+const Port = () => applyDecorators(IsOptional(), IsInt(), Min(1), Max(65535));
+const Url = () =>
+  applyDecorators(
+    IsOptional(),
+    IsUrl({ require_tld: false, require_protocol: true }),
+  );
+
+const usesAsymmetricJwt = (env: EnvironmentVariables) =>
+  env.JWT_ALGORITHM === 'RS256' || env.JWT_ALGORITHM === 'ES256';
+
+const usesSmtp = (env: EnvironmentVariables) => env.MAIL_TRANSPORT === 'smtp';
+
+/**
+ * Every environment variable the app reads. Only the ones that have no
+ * sensible default are required; the rest fall back in the services.
+ */
+export class EnvironmentVariables {
+  @Port()
+  PORT?: number;
+
+  // database
+  @IsUrl(
+    {
+      protocols: ['postgres', 'postgresql'],
+      require_protocol: true,
+      require_tld: false,
+    },
+    { message: 'DATABASE_URL must be a postgres:// connection URL' },
+  )
+  DATABASE_URL: string;
+
+  // redis
+  @IsOptional()
+  @IsString()
+  REDIS_HOST?: string;
+
+  @Port()
+  REDIS_PORT?: number;
+
+  @IsOptional()
+  @IsString()
+  REDIS_PASSWORD?: string;
+
+  @Seconds()
+  REDIS_TTL?: number;
+
+  // jwt
+  @IsOptional()
+  @IsIn(JWT_ALGORITHMS)
+  JWT_ALGORITHM?: string;
+
+  @ValidateIf((env: EnvironmentVariables) => !usesAsymmetricJwt(env))
+  @IsString({ message: 'JWT_SECRET is required for HS256' })
+  @MinLength(JWT_SECRET_MIN_LENGTH, {
+    message: `JWT_SECRET must be at least ${JWT_SECRET_MIN_LENGTH} characters`,
+  })
+  JWT_SECRET?: string;
+
+  @ValidateIf(
+    (env: EnvironmentVariables) =>
+      usesAsymmetricJwt(env) && !env.JWT_PRIVATE_KEY_FILE,
+  )
+  @IsNotEmpty({
+    message:
+      'JWT_PRIVATE_KEY or JWT_PRIVATE_KEY_FILE is required for RS256/ES256',
+  })
+  JWT_PRIVATE_KEY?: string;
+
+  @IsOptional()
+  @IsString()
+  JWT_PRIVATE_KEY_FILE?: string;
+
+  @IsOptional()
+  @IsString()
+  JWT_PUBLIC_KEYS?: string;
+
+  @IsOptional()
+  @IsString()
+  JWT_PUBLIC_KEY_FILES?: string;
+
+  @IsOptional()
+  @Matches(DURATION, {
+    message: 'JWT_EXPIRES_IN must be a duration such as 900, 15m or 1h',
+  })
+  JWT_EXPIRES_IN?: string;
+
+  @Seconds()
+  REFRESH_TOKEN_TTL?: number;
+
+  // sessions (SESSION_*_<ROLE> overrides are checked in validate)
+  @IsOptional()
+  @IsIn(['redis', 'memory', 'prisma'])
+  SESSION_STORE?: string;
+
+  @Seconds()
+  SESSION_IDLE_TIMEOUT?: number;
+
+  @Seconds()
+  SESSION_ABSOLUTE_TIMEOUT?: number;
+
+  @Seconds()
+  SESSION_TOUCH_INTERVAL?: number;
+
+  @Seconds()
+  PERMISSIONS_CACHE_TTL?: number;
+
+  // login throttling
+  @Seconds()
+  LOGIN_ATTEMPT_WINDOW?: number;
+
+  @Count()
+  LOGIN_BACKOFF_AFTER?: number;
+
+  @Count()
+  LOGIN_BACKOFF_BASE?: number;
+
+  @Seconds()
+  LOGIN_BACKOFF_MAX?: number;
+
+  @Count()
+  LOGIN_IP_BACKOFF_AFTER?: number;
+
+  @Seconds()
+  LOGIN_LOCKOUT_DURATION?: number;
+
+  @Count()
+  LOGIN_LOCKOUT_THRESHOLD?: number;
+
+  // passwords
+  @IsOptional()
+  @IsIn(['bcrypt', 'argon2id'])
+  PASSWORD_HASH_ALGORITHM?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(4)
+  @Max(31)
+  BCRYPT_SALT_ROUNDS?: number;
+
+  @Positive()
+  ARGON2_MEMORY_COST?: number;
+
+  @Positive()
+  ARGON2_TIME_COST?: number;
+
+  @Positive()
+  ARGON2_PARALLELISM?: number;
+
+  @Positive()
+  PASSWORD_MIN_LENGTH?: number;
+
+  @Positive()
+  PASSWORD_MAX_LENGTH?: number;
+
+  @Count()
+  PASSWORD_HISTORY_SIZE?: number;
+
+  @IsOptional()
+  @IsIn(BOOLEAN)
+  PASSWORD_REQUIRE_UPPERCASE?: string;
+
+  @IsOptional()
+  @IsIn(BOOLEAN)
+  PASSWORD_REQUIRE_LOWERCASE?: string;
+
+  @IsOptional()
+  @IsIn(BOOLEAN)
+  PASSWORD_REQUIRE_DIGIT?: string;
+
+  @IsOptional()
+  @IsIn(BOOLEAN)
+  PASSWORD_REQUIRE_SYMBOL?: string;
+
+  @IsOptional()
+  @IsIn(BOOLEAN)
+  PASSWORD_DISALLOW_PERSONAL_INFO?: string;
+
+  // a missing list would quietly switch the breach check off
+  @IsOptional()
+  @IsString()
+  PASSWORD_BREACH_LIST_PATH?: string;
+
+  // emailed links
+  @Seconds()
+  EMAIL_VERIFICATION_TTL?: number;
+
+  @Url()
+  EMAIL_VERIFICATION_URL?: string;
+
+  @IsOptional()
+  @IsIn(BOOLEAN)
+  REQUIRE_EMAIL_VERIFICATION?: string;
+
+  @Seconds()
+  PASSWORD_RESET_TTL?: number;
+
+  @Url()
+  PASSWORD_RESET_URL?: string;
+
+  @Seconds()
+  INVITATION_TTL?: number;
+
+  @Url()
+  INVITATION_URL?: string;
+
+  // mail; anything but smtp only logs, so a typo must not fall back to it
+  @IsOptional()
+  @IsIn(['console', 'smtp'])
+  MAIL_TRANSPORT?: string;
+
+  @ValidateIf(usesSmtp)
+  @IsNotEmpty({ message: 'MAIL_FROM is required when MAIL_TRANSPORT=smtp' })
+  MAIL_FROM?: string;
+
+  @ValidateIf(usesSmtp)
+  @IsNotEmpty({ message: 'SMTP_HOST is required when MAIL_TRANSPORT=smtp' })
+  SMTP_HOST?: string;
+
+  @Port()
+  SMTP_PORT?: number;
+
+  @IsOptional()
+  @IsIn(BOOLEAN)
+  SMTP_SECURE?: string;
+
+  // mfa
+  @IsOptional()
+  @IsString()
+  MFA_ISSUER?: string;
+
+  // a misspelt role would silently switch MFA off for it, so each must exist
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string'
+      ? value
+          .split(',')
+          .map((role) => role.trim())
+          .filter(Boolean)
+      : value,
+  )
+  @IsIn(Object.values(UserRole), {
+    each: true,
+    message: `MFA_REQUIRED_ROLES must be a comma-separated list of ${Object.values(UserRole).join(', ')}`,
+  })
+  MFA_REQUIRED_ROLES?: string[];
+
+  // oauth
+  @Url()
+  OAUTH_ISSUER?: string;
+
+  @Url()
+  OAUTH_REDIRECT_BASE_URL?: string;
+}
+
+// checks for keys that depend on other values, e.g. per-role overrides
+function validateDerivedKeys(config: Record<string, unknown>): string[] {
+  const problems: string[] = [];
+  for (const role of Object.values(UserRole)) {
+    for (const key of [
+      `SESSION_IDLE_TIMEOUT_${role}`,
+      `SESSION_ABSOLUTE_TIMEOUT_${role}`,
+    ]) {
+      const value = config[key];
+      if (
+        value !== undefined &&
+        !(Number.isInteger(Number(value)) && Number(value) > 0)
+      ) {
+        problems.push(`${key} must be a positive number of seconds`);
+      }
+    }
+  }
+
+  const breachList = config.PASSWORD_BREACH_LIST_PATH as string | undefined;
+  if (breachList && !existsSync(breachList)) {
+    problems.push(`PASSWORD_BREACH_LIST_PATH ${breachList} does not exist`);
+  }
+
+  const providers = parseOAuthProviderNames(
+    config.OAUTH_PROVIDERS as string | undefined,
+  );
+  for (const provider of providers) {
+    const name = provider.toUpperCase();
+    if (!config[`OAUTH_${name}_CLIENT_ID`]) {
+      problems.push(`OAUTH_${name}_CLIENT_ID is required by OAUTH_PROVIDERS`);
+    }
+    // anything but a preset is found through discovery or explicit endpoints
+    const endpoints = ['AUTHORIZATION_URL', 'TOKEN_URL', 'USERINFO_URL'];
+    if (
+      !isOAuthPreset(provider) &&
+      !config[`OAUTH_${name}_ISSUER`] &&
+      !endpoints.every((endpoint) => config[`OAUTH_${name}_${endpoint}`])
+    ) {
+      problems.push(
+        `OAUTH_${name}_ISSUER or OAUTH_${name}_{${endpoints.join(',')}} is required for a custom provider`,
+      );
+    }
+  }
+  return problems;
+}
+
+/**
+ * Validate the environment when ConfigModule loads, so a bad value stops the
+ * app at boot instead of surfacing on the first request that reads it.
+ * @throws Error listing every invalid variable
+ */
+export function validate(
+  config: Record<string, unknown>,
+): EnvironmentVariables {
+  // an empty value means unset, as the services have always treated it
+  const present = Object.fromEntries(
+    Object.entries(config).filter(([, value]) => value !== ''),
+  );
+  const env = plainToInstance(EnvironmentVariables, present, {
+    enableImplicitConversion: true,
+  });
+  const errors = validateSync(env, { stopAtFirstError: true });
+
+  const problems = [
+    ...errors.flatMap((error) => Object.values(error.constraints ?? {})),
+    ...validateDerivedKeys(present),
+  ];
+  if (problems.length > 0) {
+    throw new Error(
+      `Invalid environment configuration:\n${problems
+        .map((problem) => `  - ${problem}`)
+        .join('\n')}`,
+    );
+  }
+  return env;
+}
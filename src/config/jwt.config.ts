@@ -0,0 +1,13 @@
+import { registerAs } from '@nestjs/config';
+import type { JwtAlgorithm } from 'src/auth/services/jwt/jwt-key.service';
+
+export default registerAs('jwt', () => ({
+  algorithm: (process.env.JWT_ALGORITHM || 'HS256') as JwtAlgorithm,
+  secret: process.env.JWT_SECRET,
+  privateKey: process.env.JWT_PRIVATE_KEY,
+  privateKeyFile: process.env.JWT_PRIVATE_KEY_FILE,
+  publicKeys: process.env.JWT_PUBLIC_KEYS,
+  publicKeyFiles: process.env.JWT_PUBLIC_KEY_FILES,
+  // access token lifetime, anything jsonwebtoken accepts e.g. 900 or 15m
+  expiresIn: process.env.JWT_EXPIRES_IN || '1h',
+}));
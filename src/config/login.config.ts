@@ -0,0 +1,16 @@
+import { registerAs } from '@nestjs/config';
+import { envNumber } from './env.helpers';
+
+// login throttling; durations in seconds
+export default registerAs('login', () => ({
+  attemptWindow: envNumber('LOGIN_ATTEMPT_WINDOW') ?? 900,
+  // failures allowed per email and per IP before backoff kicks in
+  backoffAfter: {
+    email: envNumber('LOGIN_BACKOFF_AFTER') ?? 3,
+    ip: envNumber('LOGIN_IP_BACKOFF_AFTER') ?? 20,
+  },
+  backoffBase: envNumber('LOGIN_BACKOFF_BASE') ?? 1,
+  backoffMax: envNumber('LOGIN_BACKOFF_MAX') ?? 900,
+  lockoutThreshold: envNumber('LOGIN_LOCKOUT_THRESHOLD') ?? 10,
+  lockoutDuration: envNumber('LOGIN_LOCKOUT_DURATION') ?? 900,
+}));
@@ -0,0 +1,17 @@
+import { registerAs } from '@nestjs/config';
+import { envFlag, envNumber } from './env.helpers';
+
+export default registerAs('mail', () => ({
+  // smtp sends real mail, console logs it
+  transport: process.env.MAIL_TRANSPORT || 'console',
+  from: process.env.MAIL_FROM || 'no-reply@localhost',
+  // where the console transport also writes mails, if anywhere
+  filePath: process.env.MAIL_FILE_PATH || undefined,
+  smtp: {
+    host: process.env.SMTP_HOST || 'localhost',
+    port: envNumber('SMTP_PORT') ?? 1025,
+    secure: envFlag('SMTP_SECURE') ?? false,
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+  },
+}));
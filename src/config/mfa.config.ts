@@ -0,0 +1,12 @@
+import { registerAs } from '@nestjs/config';
+import { UserRole } from '@prisma/client';
+
+export default registerAs('mfa', () => ({
+  // shown next to the code in authenticator apps
+  issuer: process.env.MFA_ISSUER || 'postgres-auth',
+  // roles that need an MFA-verified session, e.g. MFA_REQUIRED_ROLES=ADMIN,MANAGER
+  requiredRoles: (process.env.MFA_REQUIRED_ROLES ?? '')
+    .split(',')
+    .map((role) => role.trim())
+    .filter(Boolean) as UserRole[],
+}));
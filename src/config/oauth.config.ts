@@ -0,0 +1,15 @@
+import { registerAs } from '@nestjs/config';
+import { loadOAuthProviders } from 'src/auth/services/oauth/oauth-provider.config';
+
+export default registerAs('oauth', () => ({
+  // this service as an OAuth server, without a trailing slash
+  issuer: (process.env.OAUTH_ISSUER || 'http://localhost:3000').replace(
+    /\/$/,
+    '',
+  ),
+  // social login: where providers send the browser back, and the providers
+  redirectBaseUrl: (
+    process.env.OAUTH_REDIRECT_BASE_URL || 'http://localhost:3000/auth/oauth'
+  ).replace(/\/$/, ''),
+  providers: loadOAuthProviders(process.env),
+}));
@@ -0,0 +1,24 @@
+import { registerAs } from '@nestjs/config';
+import { envFlag, envNumber } from './env.helpers';
+
+export default registerAs('password', () => ({
+  hashAlgorithm: process.env.PASSWORD_HASH_ALGORITHM || 'bcrypt',
+  bcryptSaltRounds: envNumber('BCRYPT_SALT_ROUNDS') ?? 10,
+  argon2: {
+    memoryCost: envNumber('ARGON2_MEMORY_COST') ?? 65536,
+    timeCost: envNumber('ARGON2_TIME_COST') ?? 3,
+    parallelism: envNumber('ARGON2_PARALLELISM') ?? 4,
+  },
+  // AuthModule.forRoot passwordPolicy options win over these
+  policy: {
+    minLength: envNumber('PASSWORD_MIN_LENGTH') ?? 8,
+    maxLength: envNumber('PASSWORD_MAX_LENGTH') ?? 72,
+    requireUppercase: envFlag('PASSWORD_REQUIRE_UPPERCASE') ?? false,
+    requireLowercase: envFlag('PASSWORD_REQUIRE_LOWERCASE') ?? false,
+    requireDigit: envFlag('PASSWORD_REQUIRE_DIGIT') ?? false,
+    requireSymbol: envFlag('PASSWORD_REQUIRE_SYMBOL') ?? false,
+    disallowPersonalInfo: envFlag('PASSWORD_DISALLOW_PERSONAL_INFO') ?? true,
+    historySize: envNumber('PASSWORD_HISTORY_SIZE') ?? 5,
+  },
+  breachListPath: process.env.PASSWORD_BREACH_LIST_PATH || undefined,
+}));
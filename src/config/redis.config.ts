@@ -0,0 +1,11 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('redis', () => ({
+  // token versions, MFA challenges, OAuth state and rate limits live here too,
+  // so only the all-in-memory setup (SESSION_STORE=memory, no REDIS_HOST) may
+  // run without redis; sessions in prisma still need revocations to persist
+  enabled: !!process.env.REDIS_HOST || process.env.SESSION_STORE !== 'memory',
+  host: process.env.REDIS_HOST || 'localhost',
+  port: parseInt(process.env.REDIS_PORT || '6379', 10),
+  password: process.env.REDIS_PASSWORD || undefined,
+}));
@@ -0,0 +1,29 @@
+import { registerAs } from '@nestjs/config';
+import { UserRole } from '@prisma/client';
+import { envNumber } from './env.helpers';
+
+export interface SessionLifetimeConfig {
+  idleTimeout?: number;
+  absoluteTimeout?: number;
+}
+
+// durations in seconds; AuthModule.forRoot options win over these
+export default registerAs('session', () => ({
+  store: process.env.SESSION_STORE || 'redis',
+  // REDIS_TTL predates the split and stays as a fallback
+  idleTimeout:
+    envNumber('SESSION_IDLE_TIMEOUT') ?? envNumber('REDIS_TTL') ?? 3600,
+  // the refresh token lifetime when unset
+  absoluteTimeout: envNumber('SESSION_ABSOLUTE_TIMEOUT'),
+  // e.g. SESSION_IDLE_TIMEOUT_ADMIN=900
+  roles: Object.fromEntries(
+    Object.values(UserRole).map((role) => [
+      role,
+      {
+        idleTimeout: envNumber(`SESSION_IDLE_TIMEOUT_${role}`),
+        absoluteTimeout: envNumber(`SESSION_ABSOLUTE_TIMEOUT_${role}`),
+      },
+    ]),
+  ) as Record<UserRole, SessionLifetimeConfig>,
+  touchInterval: envNumber('SESSION_TOUCH_INTERVAL') ?? 60,
+}));
@@ -0,0 +1,27 @@
+import { registerAs } from '@nestjs/config';
+import { envFlag, envNumber } from './env.helpers';
+
+// lifetimes in seconds of refresh tokens, emailed links and caches
+export default registerAs('tokens', () => ({
+  refreshTokenTtl: envNumber('REFRESH_TOKEN_TTL') ?? 604800,
+  permissionsCacheTtl: envNumber('PERMISSIONS_CACHE_TTL') ?? 300,
+  emailVerification: {
+    ttl: envNumber('EMAIL_VERIFICATION_TTL') ?? 86400,
+    url:
+      process.env.EMAIL_VERIFICATION_URL ||
+      'http://localhost:3000/auth/verify-email',
+    // when set, unverified accounts can't log in
+    required: envFlag('REQUIRE_EMAIL_VERIFICATION') ?? false,
+  },
+  passwordReset: {
+    ttl: envNumber('PASSWORD_RESET_TTL') ?? 3600,
+    url:
+      process.env.PASSWORD_RESET_URL ||
+      'http://localhost:3000/auth/password/reset',
+  },
+  invitation: {
+    ttl: envNumber('INVITATION_TTL') ?? 604800,
+    url:
+      process.env.INVITATION_URL || 'http://localhost:3000/invitations/accept',
+  },
+}));
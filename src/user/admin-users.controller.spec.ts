@@ -0,0 +1,169 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { AuditAction } from '@prisma/client';
+import { instanceToPlain } from 'class-transformer';
+import { AuditService } from 'src/audit/audit.service';
+import { PasswordResetService } from 'src/auth/services/password-reset/password-reset.service';
+import { PermissionService } from 'src/auth/services/permission/permission.service';
+import { RefreshTokenService } from 'src/auth/services/refresh-token/refresh-token.service';
+import { PERMISSIONS_KEY } from 'src/common/decorators/permissions.decorator';
+import { SerializationGroup } from 'src/common/interceptors/serializer.interceptor';
+import { AdminUsersController } from './admin-users.controller';
+import { UsersService } from './users.service';
+
+describe('AdminUsersController', () => {
+  let controller: AdminUsersController;
+  const usersService = {
+    findOne: jest.fn(),
+    findById: jest.fn(),
+    findPaginated: jest.fn(),
+    update: jest.fn(),
+  };
+  const refreshTokenService = { revokeAllForUser: jest.fn() };
+  const passwordResetService = { sendResetLink: jest.fn() };
+  const permissionService = {
+    assignRole: jest.fn(),
+    removeRole: jest.fn(),
+    getUserPermissions: jest.fn(),
+  };
+  const auditService = { record: jest.fn() };
+  const admin = { userId: 'admin-1', email: 'admin@example.com' };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [AdminUsersController],
+      providers: [
+        { provide: UsersService, useValue: usersService },
+        { provide: RefreshTokenService, useValue: refreshTokenService },
+        { provide: PasswordResetService, useValue: passwordResetService },
+        { provide: AuditService, useValue: auditService },
+        { provide: PermissionService, useValue: permissionService },
+      ],
+    }).compile();
+
+    controller = module.get<AdminUsersController>(AdminUsersController);
+  });
+
+  it('requires roles:assign to grant or take away roles', () => {
+    for (const handler of ['assignRole', 'removeRole'] as const) {
+      expect(
+        Reflect.getMetadata(
+          PERMISSIONS_KEY,
+          AdminUsersController.prototype[handler],
+        ),
+      ).toEqual(['roles:assign']);
+    }
+  });
+
+  it('assigns an extra role and audits it', async () => {
+    await controller.assignRole('user-1', { role: 'AUDITOR' }, admin);
+
+    expect(permissionService.assignRole).toHaveBeenCalledWith(
+      'user-1',
+      'AUDITOR',
+    );
+    expect(auditService.record).toHaveBeenCalledWith({
+      action: AuditAction.ROLE_CHANGE,
+      actorId: 'admin-1',
+      targetId: 'user-1',
+      metadata: { added: 'AUDITOR' },
+    });
+  });
+
+  it('removes a role and audits it', async () => {
+    await controller.removeRole('user-1', 'AUDITOR', admin);
+
+    expect(permissionService.removeRole).toHaveBeenCalledWith(
+      'user-1',
+      'AUDITOR',
+    );
+    expect(auditService.record).toHaveBeenCalledWith(
+      expect.objectContaining({ metadata: { removed: 'AUDITOR' } }),
+    );
+  });
+
+  it('does not touch roles of a user that does not exist', async () => {
+    usersService.findOne.mockRejectedValue(new Error('not found'));
+
+    await expect(
+      controller.assignRole('missing', { role: 'AUDITOR' }, admin),
+    ).rejects.toThrow('not found');
+    expect(permissionService.assignRole).not.toHaveBeenCalled();
+  });
+
+  it('lists users without their password hashes', async () => {
+    usersService.findPaginated.mockResolvedValue({
+      items: [
+        { id: 'user-1', email: 'jane@example.com', password: 'hash' },
+        { id: 'user-2', email: 'bob@example.com', mfaSecret: 'SECRET' },
+      ],
+      total: 12,
+      page: 2,
+      limit: 2,
+    });
+
+    const page = instanceToPlain(await controller.findAll({ page: 2 }), {
+      groups: [SerializationGroup.PUBLIC, SerializationGroup.ADMIN],
+    }) as { items: object[]; total: number };
+
+    expect(page.total).toBe(12);
+    expect(page.items).toEqual([
+      expect.objectContaining({ id: 'user-1', email: 'jane@example.com' }),
+      expect.objectContaining({ id: 'user-2', email: 'bob@example.com' }),
+    ]);
+    for (const item of page.items) {
+      expect(item).not.toHaveProperty('password');
+      expect(item).not.toHaveProperty('mfaSecret');
+    }
+  });
+
+  it("won't let admins change their own role or deactivate themselves", async () => {
+    await expect(
+      controller.changeRole('admin-1', { role: 'USER' }, admin),
+    ).rejects.toThrow(BadRequestException);
+    await expect(controller.deactivate('admin-1', admin)).rejects.toThrow(
+      BadRequestException,
+    );
+    expect(usersService.update).not.toHaveBeenCalled();
+  });
+
+  it('deactivates another user on behalf of the admin', async () => {
+    usersService.update.mockResolvedValue({ id: 'user-1', isActive: false });
+
+    await controller.deactivate('user-1', admin);
+
+    expect(usersService.update).toHaveBeenCalledWith(
+      { isActive: false },
+      'user-1',
+      'admin-1',
+    );
+  });
+
+  it('signs a user out everywhere and audits it', async () => {
+    await controller.forceLogout('user-1', admin);
+
+    expect(refreshTokenService.revokeAllForUser).toHaveBeenCalledWith('user-1');
+    expect(auditService.record).toHaveBeenCalledWith({
+      action: AuditAction.LOGOUT,
+      actorId: 'admin-1',
+      targetId: 'user-1',
+      metadata: { scope: 'all', forced: true },
+    });
+  });
+
+  it('only mails a reset link to an existing user', async () => {
+    usersService.findById.mockResolvedValue(null);
+    await expect(controller.triggerPasswordReset('missing')).rejects.toThrow(
+      NotFoundException,
+    );
+
+    const user = { id: 'user-1', email: 'jane@example.com' };
+    usersService.findById.mockResolvedValue(user);
+    await controller.triggerPasswordReset('user-1');
+
+    expect(passwordResetService.sendResetLink).toHaveBeenCalledTimes(1);
+    expect(passwordResetService.sendResetLink).toHaveBeenCalledWith(user);
+  });
+});
@@ -0,0 +1,173 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { AuditAction } from '@prisma/client';
+import { AuditService } from 'src/audit/audit.service';
+import { PasswordResetService } from 'src/auth/services/password-reset/password-reset.service';
+import { PermissionService } from 'src/auth/services/permission/permission.service';
+import { RefreshTokenService } from 'src/auth/services/refresh-token/refresh-token.service';
+import { RequirePermissions } from 'src/common/decorators/permissions.decorator';
+import { CheckPolicies } from 'src/common/decorators/check-policies.decorator';
+import type { AuthenticatedUser } from 'src/common/decorators/user.decorator';
+import { User } from 'src/common/decorators/user.decorator';
+import { AdminUserQueryDto } from './dto/admin-user-query.dto';
+import { AssignRoleDto } from './dto/assign-role.dto';
+import { ChangeRoleDto } from './dto/change-role.dto';
+import { UserListResponseDto } from './dto/user-list-response.dto';
+import { UserEntity } from './entities/user.entity';
+import { SetUserActivePolicy } from './policies/set-user-active.policy';
+import { UsersService } from './users.service';
+
+@Controller('admin/users')
+export class AdminUsersController {
+  constructor(
+    private usersService: UsersService,
+    private refreshTokenService: RefreshTokenService,
+    private passwordResetService: PasswordResetService,
+    private auditService: AuditService,
+    private permissionService: PermissionService,
+  ) {}
+
+  @Get()
+  @RequirePermissions('users:read')
+  async findAll(@Query() query: AdminUserQueryDto) {
+    return new UserListResponseDto(
+      await this.usersService.findPaginated(query),
+    );
+  }
+
+  @Get(':id')
+  @RequirePermissions('users:read')
+  async findOne(@Param('id') id: string): Promise<UserEntity> {
+    return new UserEntity(await this.usersService.findOne(id));
+  }
+
+  @Patch(':id/role')
+  @RequirePermissions('roles:assign')
+  async changeRole(
+    @Param('id') id: string,
+    @Body() changeRoleDto: ChangeRoleDto,
+    @User() admin: AuthenticatedUser,
+  ) {
+    // stops the last admin from locking everyone out by accident
+    if (id === admin.userId) {
+      throw new BadRequestException('You cannot change your own role');
+    }
+    return new UserEntity(
+      await this.usersService.update(
+        { role: changeRoleDto.role },
+        id,
+        admin.userId,
+      ),
+    );
+  }
+
+  // managers may toggle regular users, see AbilityFactory
+  @Post(':id/activate')
+  @RequirePermissions('users:activate')
+  @CheckPolicies(SetUserActivePolicy)
+  @HttpCode(HttpStatus.OK)
+  async activate(@Param('id') id: string, @User() admin: AuthenticatedUser) {
+    return new UserEntity(
+      await this.usersService.update({ isActive: true }, id, admin.userId),
+    );
+  }
+
+  @Post(':id/deactivate')
+  @RequirePermissions('users:activate')
+  @CheckPolicies(SetUserActivePolicy)
+  @HttpCode(HttpStatus.OK)
+  async deactivate(@Param('id') id: string, @User() admin: AuthenticatedUser) {
+    if (id === admin.userId) {
+      throw new BadRequestException('You cannot deactivate your own account');
+    }
+    return new UserEntity(
+      await this.usersService.update({ isActive: false }, id, admin.userId),
+    );
+  }
+
+  // revoke every session and refresh token the user holds
+  @Post(':id/logout')
+  @RequirePermissions('users:write')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async forceLogout(@Param('id') id: string, @User() admin: AuthenticatedUser) {
+    await this.usersService.findOne(id);
+    await this.refreshTokenService.revokeAllForUser(id);
+    await this.auditService.record({
+      action: AuditAction.LOGOUT,
+      actorId: admin.userId,
+      targetId: id,
+      metadata: { scope: 'all', forced: true },
+    });
+  }
+
+  // mails the user a reset link; their current password keeps working until used
+  @Post(':id/password-reset')
+  @RequirePermissions('users:write')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async triggerPasswordReset(@Param('id') id: string) {
+    const user = await this.usersService.findById(id);
+    if (!user) {
+      throw new NotFoundException(`User with ID ${id} not found`);
+    }
+    await this.passwordResetService.sendResetLink(user);
+  }
+
+  // everything the user's base role and extra roles grant
+  @Get(':id/permissions')
+  @RequirePermissions('users:read')
+  async getPermissions(@Param('id') id: string) {
+    await this.usersService.findOne(id);
+    return {
+      permissions: await this.permissionService.getUserPermissions(id),
+    };
+  }
+
+  // extra roles come on top of the base role set through PATCH :id/role
+  @Post(':id/roles')
+  @RequirePermissions('roles:assign')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async assignRole(
+    @Param('id') id: string,
+    @Body() assignRoleDto: AssignRoleDto,
+    @User() admin: AuthenticatedUser,
+  ) {
+    await this.usersService.findOne(id);
+    await this.permissionService.assignRole(id, assignRoleDto.role);
+    await this.auditService.record({
+      action: AuditAction.ROLE_CHANGE,
+      actorId: admin.userId,
+      targetId: id,
+      metadata: { added: assignRoleDto.role },
+    });
+  }
+
+  @Delete(':id/roles/:role')
+  @RequirePermissions('roles:assign')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async removeRole(
+    @Param('id') id: string,
+    @Param('role') role: string,
+    @User() admin: AuthenticatedUser,
+  ) {
+    await this.usersService.findOne(id);
+    await this.permissionService.removeRole(id, role);
+    await this.auditService.record({
+      action: AuditAction.ROLE_CHANGE,
+      actorId: admin.userId,
+      targetId: id,
+      metadata: { removed: role },
+    });
+  }
+}
@@ -0,0 +1,69 @@
+import { UserRole } from '@prisma/client';
+import { Transform, Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsDate,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+
+export const USER_SORT_FIELDS = ['createdAt', 'email', 'name', 'role'] as const;
+
+export class AdminUserQueryDto {
+  @IsOptional()
+  @IsEnum(UserRole as object)
+  role?: UserRole;
+
+  // implicit conversion would turn "false" into true
+  @IsOptional()
+  @Transform(({ obj }: { obj: Record<string, unknown> }) =>
+    obj.isActive === 'true'
+      ? true
+      : obj.isActive === 'false'
+        ? false
+        : obj.isActive,
+  )
+  @IsBoolean()
+  isActive?: boolean;
+
+  // case-insensitive substring match
+  @IsOptional()
+  @IsString()
+  email?: string;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  createdFrom?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  createdTo?: Date;
+
+  @IsOptional()
+  @IsIn(USER_SORT_FIELDS)
+  sortBy?: (typeof USER_SORT_FIELDS)[number];
+
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  order?: 'asc' | 'desc';
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
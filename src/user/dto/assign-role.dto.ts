@@ -0,0 +1,7 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class AssignRoleDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Role is required' })
+  role: string;
+}
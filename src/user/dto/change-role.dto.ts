@@ -0,0 +1,9 @@
+import { UserRole } from '@prisma/client';
+import { IsEnum } from 'class-validator';
+
+export class ChangeRoleDto {
+  @IsEnum(UserRole as object, {
+    message: 'Role must be one of: USER, ADMIN, MODERATOR, MANAGER',
+  })
+  role: UserRole;
+}
@@ -1,30 +1,16 @@
-import { UserRole } from '@prisma/client';
-import {
-  IsEmail,
-  IsNotEmpty,
-  MinLength,
-  IsOptional,
-  IsString,
-  IsEnum,
-} from 'class-validator';
+import { IsEmail, IsNotEmpty, IsOptional, IsString } from 'class-validator';
 
 export class CreateUserDto {
   @IsEmail({}, { message: 'Please provide a valid email address' })
   @IsNotEmpty({ message: 'Email is required' })
   email: string;
 
+  // length and strength rules live in PasswordPolicyService
   @IsString()
-  @MinLength(8, { message: 'Password must be at least 8 characters long' })
   @IsNotEmpty({ message: 'Password is required' })
   password: string;
 
   @IsString()
   @IsOptional()
   name?: string;
-
-  @IsOptional()
-  @IsEnum(UserRole as object, {
-    message: 'Role must be one of: USER, ADMIN, MODERATOR, MANAGER',
-  })
-  role?: UserRole;
 }
@@ -0,0 +1,25 @@
+import { UserRole } from '@prisma/client';
+import { Expose } from 'class-transformer';
+import type { AuthenticatedUser } from 'src/common/decorators/user.decorator';
+
+// the caller as seen in their access token
+export class ProfileResponseDto {
+  @Expose()
+  userId: string;
+
+  @Expose()
+  email: string;
+
+  @Expose()
+  name?: string;
+
+  @Expose()
+  role?: UserRole;
+
+  constructor(user: AuthenticatedUser) {
+    this.userId = user.userId;
+    this.email = user.email;
+    this.name = user.name;
+    this.role = user.role;
+  }
+}
@@ -1,20 +1,12 @@
-import { UserRole } from '@prisma/client';
-import {
-  IsEmail,
-  MinLength,
-  IsOptional,
-  IsString,
-  IsBoolean,
-  IsEnum,
-} from 'class-validator';
+import { IsEmail, IsOptional, IsString } from 'class-validator';
 
 export class UpdateUserDto {
   @IsEmail({}, { message: 'Please provide a valid email address' })
   @IsOptional()
   email?: string;
 
+  // length and strength rules live in PasswordPolicyService
   @IsString()
-  @MinLength(8, { message: 'Password must be at least 8 characters long' })
   @IsOptional()
   password?: string;
 
@@ -22,13 +14,5 @@ export class UpdateUserDto {
   @IsOptional()
   name?: string;
 
-  @IsOptional()
-  @IsBoolean()
-  isActive?: boolean;
-
-  @IsOptional()
-  @IsEnum(UserRole as object, {
-    message: 'Role must be one of: USER, ADMIN, MODERATOR, MANAGER',
-  })
-  role?: UserRole;
+  // role and isActive are deliberately absent: only admin routes change them
 }
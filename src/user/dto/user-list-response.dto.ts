@@ -0,0 +1,26 @@
+import { User } from '@prisma/client';
+import { Type } from 'class-transformer';
+import { UserEntity } from '../entities/user.entity';
+
+export class UserListResponseDto {
+  @Type(() => UserEntity)
+  items: UserEntity[];
+
+  total: number;
+
+  page: number;
+
+  limit: number;
+
+  constructor(page: {
+    items: Partial<User>[];
+    total: number;
+    page: number;
+    limit: number;
+  }) {
+    this.items = page.items.map((user) => new UserEntity(user));
+    this.total = page.total;
+    this.page = page.page;
+    this.limit = page.limit;
+  }
+}
@@ -0,0 +1,39 @@
+import { User, UserRole } from '@prisma/client';
+import { instanceToPlain } from 'class-transformer';
+import { UserEntity } from './user.entity';
+
+describe('UserEntity', () => {
+  const user: User = {
+    id: 'user-1',
+    email: 'user@example.com',
+    password: 'hash',
+    name: 'User',
+    role: UserRole.USER,
+    isActive: true,
+    emailVerified: true,
+    emailVerifiedAt: null,
+    mfaEnabled: true,
+    mfaSecret: 'SECRET',
+    lockedUntil: null,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  };
+
+  it.each([['public'], ['self'], ['admin']])(
+    'never exposes secrets to the %s group',
+    (group) => {
+      const plain = instanceToPlain(new UserEntity(user), {
+        groups: [group],
+      });
+      expect(plain).not.toHaveProperty('password');
+      expect(plain).not.toHaveProperty('mfaSecret');
+    },
+  );
+
+  it('shows only public fields to other users', () => {
+    const plain = instanceToPlain(new UserEntity(user), {
+      groups: ['public'],
+    });
+    expect(Object.keys(plain).sort()).toEqual(['createdAt', 'id', 'name']);
+  });
+});
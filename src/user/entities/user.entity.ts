@@ -0,0 +1,53 @@
+import { User, UserRole } from '@prisma/client';
+import { Exclude, Expose } from 'class-transformer';
+import { SerializationGroup } from 'src/common/interceptors/serializer.interceptor';
+
+const { SELF, ADMIN } = SerializationGroup;
+
+/**
+ * Response shape of a user. Fields are opt-in: anything without @Expose,
+ * including columns added to the schema later, never leaves the API.
+ */
+@Exclude()
+export class UserEntity {
+  @Expose()
+  id: string;
+
+  @Expose()
+  name: string | null;
+
+  @Expose({ groups: [SELF, ADMIN] })
+  email: string;
+
+  @Expose({ groups: [SELF, ADMIN] })
+  role: UserRole;
+
+  @Expose({ groups: [SELF, ADMIN] })
+  isActive: boolean;
+
+  @Expose({ groups: [SELF, ADMIN] })
+  emailVerified: boolean;
+
+  @Expose({ groups: [ADMIN] })
+  emailVerifiedAt: Date | null;
+
+  @Expose({ groups: [SELF, ADMIN] })
+  mfaEnabled: boolean;
+
+  @Expose({ groups: [ADMIN] })
+  lockedUntil: Date | null;
+
+  @Expose()
+  createdAt: Date;
+
+  @Expose({ groups: [SELF, ADMIN] })
+  updatedAt: Date;
+
+  password?: string;
+
+  mfaSecret?: string | null;
+
+  constructor(user: Partial<User>) {
+    Object.assign(this, user);
+  }
+}
@@ -0,0 +1,66 @@
+import { NotFoundException } from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { PrismaService } from 'prisma/prisma.service';
+import { AbilityFactory } from 'src/auth/policies/ability.factory';
+import { PolicyRequest } from 'src/auth/policies/policy-handler.interface';
+import { PermissionService } from 'src/auth/services/permission/permission.service';
+import { ReadUserPolicy } from './read-user.policy';
+
+describe('ReadUserPolicy', () => {
+  const users: Record<
+    string,
+    { id: string; role: UserRole; roles: { name: string }[] }
+  > = {
+    'user-1': { id: 'user-1', role: UserRole.USER, roles: [] },
+    'user-2': { id: 'user-2', role: UserRole.USER, roles: [] },
+  };
+  // what each caller's roles resolve to
+  const permissions: Record<UserRole, string[]> = {
+    USER: ['profile:read'],
+    MODERATOR: ['profile:read', 'users:read'],
+    MANAGER: ['profile:read', 'users:read'],
+    ADMIN: ['users:*'],
+  };
+  const prisma = {
+    user: {
+      findUnique: ({ where }: { where: { id: string } }) =>
+        Promise.resolve(users[where.id] ?? null),
+    },
+  } as unknown as PrismaService;
+  const policy = new ReadUserPolicy(prisma);
+  const permissionService = {
+    getUserPermissions: jest.fn(),
+    hasPermissions: (granted: string[], required: string[]) =>
+      required.every(
+        (permission) =>
+          granted.includes(permission) ||
+          granted.includes(`${permission.split(':')[0]}:*`),
+      ),
+  };
+  const abilities = new AbilityFactory(
+    permissionService as unknown as PermissionService,
+  );
+
+  const readAs = async (role: UserRole, id: string) => {
+    permissionService.getUserPermissions.mockResolvedValue(permissions[role]);
+    return policy.handle(
+      await abilities.createForUser({ userId: 'user-1', email: 'a@b.c' }),
+      { params: { id } } as unknown as PolicyRequest,
+    );
+  };
+
+  it('lets users read only themselves', async () => {
+    await expect(readAs(UserRole.USER, 'user-1')).resolves.toBe(true);
+    await expect(readAs(UserRole.USER, 'user-2')).resolves.toBe(false);
+  });
+
+  it('lets moderators read anyone', async () => {
+    await expect(readAs(UserRole.MODERATOR, 'user-2')).resolves.toBe(true);
+  });
+
+  it('reports a missing user as not found', async () => {
+    await expect(readAs(UserRole.ADMIN, 'missing')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+});
@@ -0,0 +1,24 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaService } from 'prisma/prisma.service';
+import { Ability } from 'src/auth/policies/ability';
+import {
+  PolicyHandler,
+  PolicyRequest,
+} from 'src/auth/policies/policy-handler.interface';
+import { findTargetUser } from './target-user';
+
+// users read themselves; users:read reads anyone
+@Injectable()
+export class ReadUserPolicy implements PolicyHandler {
+  constructor(private prisma: PrismaService) {}
+
+  async handle(ability: Ability, request: PolicyRequest): Promise<boolean> {
+    const id = request.params.id as string;
+    const target = await findTargetUser(this.prisma, id);
+    if (!target) {
+      throw new NotFoundException(`User with ID ${id} not found`);
+    }
+
+    return ability.can('read', 'User', target);
+  }
+}
@@ -0,0 +1,10 @@
+import { Injectable } from '@nestjs/common';
+import { UpdateUserPolicy } from './update-user.policy';
+
+// activate/deactivate routes carry no body; the field is implied by the route
+@Injectable()
+export class SetUserActivePolicy extends UpdateUserPolicy {
+  protected getFields(): string[] {
+    return ['isActive'];
+  }
+}
@@ -0,0 +1,20 @@
+import { UserRole } from '@prisma/client';
+import { PrismaService } from 'prisma/prisma.service';
+
+/**
+ * Load the user a policy checks against. Staff accounts hold any role besides
+ * USER, whether as their primary role or one assigned later.
+ * @returns null when there is no such user
+ */
+export async function findTargetUser(prisma: PrismaService, id: string) {
+  const user = await prisma.user.findUnique({
+    where: { id },
+    select: { id: true, role: true, roles: { select: { name: true } } },
+  });
+  if (!user) {
+    return null;
+  }
+
+  const roles = [user.role, ...user.roles.map((role) => role.name)];
+  return { id: user.id, staff: roles.some((role) => role !== UserRole.USER) };
+}
@@ -0,0 +1,31 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaService } from 'prisma/prisma.service';
+import { Ability } from 'src/auth/policies/ability';
+import {
+  PolicyHandler,
+  PolicyRequest,
+} from 'src/auth/policies/policy-handler.interface';
+import { findTargetUser } from './target-user';
+
+// checks every field in the body against the target user
+@Injectable()
+export class UpdateUserPolicy implements PolicyHandler {
+  constructor(private prisma: PrismaService) {}
+
+  async handle(ability: Ability, request: PolicyRequest): Promise<boolean> {
+    const id = request.params.id as string;
+    const target = await findTargetUser(this.prisma, id);
+    if (!target) {
+      throw new NotFoundException(`User with the id ${id} does not exist`);
+    }
+
+    const fields = this.getFields(request);
+    return fields.length > 0
+      ? fields.every((field) => ability.can('update', 'User', target, field))
+      : ability.can('update', 'User', target);
+  }
+
+  protected getFields(request: PolicyRequest): string[] {
+    return Object.keys((request.body ?? {}) as object);
+  }
+}
@@ -0,0 +1,29 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  SerializeOptions,
+} from '@nestjs/common';
+import { Public } from 'src/common/decorators/public.decorator';
+import { RateLimit } from 'src/common/decorators/rate-limit.decorator';
+import { SerializationGroup } from 'src/common/interceptors/serializer.interceptor';
+import { CreateUserDto } from './dto/create-user.dto';
+import { UserEntity } from './entities/user.entity';
+import { UsersService } from './users.service';
+
+// sign-up lives with the users, so AuthModule works with any user store
+@Controller('auth')
+export class RegistrationController {
+  constructor(private usersService: UsersService) {}
+
+  @Public()
+  @RateLimit({ points: 5, duration: 3600, key: 'ip' })
+  @Post('register')
+  @SerializeOptions({ groups: [SerializationGroup.SELF] })
+  @HttpCode(HttpStatus.CREATED)
+  async register(@Body() createUserDto: CreateUserDto): Promise<UserEntity> {
+    return new UserEntity(await this.usersService.create(createUserDto));
+  }
+}
@@ -1,5 +1,9 @@
+import { BadRequestException, Type, ValidationPipe } from '@nestjs/common';
 import { Test, TestingModule } from '@nestjs/testing';
+import { CreateUserDto } from './dto/create-user.dto';
+import { UpdateUserDto } from './dto/update-user.dto';
 import { UserController } from './users.controller';
+import { UsersService } from './users.service';
 
 describe('UserController', () => {
   let controller: UserController;
@@ -7,6 +11,7 @@ describe('UserController', () => {
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [UserController],
+      providers: [{ provide: UsersService, useValue: {} }],
     }).compile();
 
     controller = module.get<UserController>(UserController);
@@ -15,4 +20,30 @@ describe('UserController', () => {
   it('should be defined', () => {
     expect(controller).toBeDefined();
   });
+
+  // the options main.ts applies to every request body
+  const pipe = new ValidationPipe({
+    whitelist: true,
+    forbidNonWhitelisted: true,
+    transform: true,
+  });
+  const validateBody = (metatype: Type, body: object) =>
+    pipe.transform(body, { type: 'body', metatype });
+
+  it.each([
+    ['sign-up', CreateUserDto, { password: 'N3w-passphrase!' }],
+    ['profile update', UpdateUserDto, {}],
+  ])(
+    'rejects role and isActive in a %s body',
+    async (_route, metatype: Type, body) => {
+      const base = { email: 'jane@example.com', ...body };
+
+      await expect(validateBody(metatype, base)).resolves.toBeDefined();
+      for (const extra of [{ role: 'ADMIN' }, { isActive: true }]) {
+        await expect(
+          validateBody(metatype, { ...base, ...extra }),
+        ).rejects.toThrow(BadRequestException);
+      }
+    },
+  );
 });
@@ -1,18 +1,192 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { UserService } from './users.service';
+import { UsersService } from './users.service';
+import { CreateUserDto } from './dto/create-user.dto';
+import { PrismaService } from 'prisma/prisma.service';
+import { PasswordService } from 'src/common/services/password.service';
+import { EmailVerificationService } from 'src/auth/services/email-verification/email-verification.service';
+import { LoginThrottleService } from 'src/auth/services/login-throttle/login-throttle.service';
+import { AuditService } from 'src/audit/audit.service';
+import { PermissionService } from 'src/auth/services/permission/permission.service';
+import { PasswordPolicyService } from 'src/auth/services/password-policy/password-policy.service';
+import { RefreshTokenService } from 'src/auth/services/refresh-token/refresh-token.service';
+import { TokenVersionService } from 'src/auth/services/token-version/token-version.service';
+import { UserTokenService } from 'src/auth/services/user-token/user-token.service';
 
 describe('UserService', () => {
-  let service: UserService;
+  let service: UsersService;
+  const user = {
+    id: 'user-1',
+    email: 'jane@example.com',
+    name: 'Jane',
+    password: 'hash',
+    role: 'USER',
+    isActive: true,
+    emailVerified: true,
+    emailVerifiedAt: new Date(),
+  };
+  const prisma = {
+    user: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      update: jest.fn(),
+      create: jest.fn(),
+    },
+    $transaction: (queries: Promise<unknown>[]) => Promise.all(queries),
+  };
+  const emailVerificationService = { sendVerification: jest.fn() };
+  const userTokenService = { revokeAll: jest.fn() };
 
   beforeEach(async () => {
+    jest.resetAllMocks();
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [UserService],
+      providers: [
+        UsersService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: PasswordService,
+          useValue: { hashPassword: () => Promise.resolve('hash') },
+        },
+        {
+          provide: EmailVerificationService,
+          useValue: emailVerificationService,
+        },
+        { provide: LoginThrottleService, useValue: {} },
+        { provide: AuditService, useValue: {} },
+        { provide: PermissionService, useValue: {} },
+        { provide: PasswordPolicyService, useValue: { validate: jest.fn() } },
+        { provide: RefreshTokenService, useValue: {} },
+        { provide: TokenVersionService, useValue: {} },
+        { provide: UserTokenService, useValue: userTokenService },
+      ],
     }).compile();
 
-    service = module.get<UserService>(UserService);
+    service = module.get<UsersService>(UsersService);
   });
 
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('signs everyone up as a regular user', async () => {
+    prisma.user.findUnique.mockResolvedValue(null);
+    prisma.user.create.mockResolvedValue(user);
+
+    await service.create({
+      email: 'jane@example.com',
+      password: 'N3w-passphrase!',
+      // what a client could still send if the DTO let it through
+      role: 'ADMIN',
+      isActive: true,
+    } as CreateUserDto);
+
+    expect(prisma.user.create).toHaveBeenCalledWith({
+      data: {
+        email: 'jane@example.com',
+        password: 'hash',
+        name: undefined,
+        role: 'USER',
+      },
+    });
+  });
+
+  it('asks for a new verification when the email changes', async () => {
+    prisma.user.findUnique.mockImplementation(
+      ({ where }: { where: { id?: string } }) =>
+        Promise.resolve(where.id ? user : null),
+    );
+    const updated = {
+      ...user,
+      email: 'jane@new.example.com',
+      emailVerified: false,
+      emailVerifiedAt: null,
+    };
+    prisma.user.update.mockResolvedValue(updated);
+
+    await service.update({ email: 'jane@new.example.com' }, 'user-1');
+
+    expect(prisma.user.update).toHaveBeenCalledWith({
+      where: { id: 'user-1' },
+      data: {
+        email: 'jane@new.example.com',
+        emailVerified: false,
+        emailVerifiedAt: null,
+      },
+    });
+    expect(emailVerificationService.sendVerification).toHaveBeenCalledWith(
+      updated,
+    );
+    // reset links still out for the old address
+    expect(userTokenService.revokeAll).toHaveBeenCalledWith(
+      'user-1',
+      'PASSWORD_RESET',
+    );
+  });
+
+  it('keeps the verification when the email is unchanged', async () => {
+    prisma.user.findUnique.mockResolvedValue(user);
+    prisma.user.update.mockResolvedValue({ ...user, name: 'Janet' });
+
+    await service.update({ email: user.email, name: 'Janet' }, 'user-1');
+
+    expect(prisma.user.update).toHaveBeenCalledWith({
+      where: { id: 'user-1' },
+      data: { email: user.email, name: 'Janet' },
+    });
+    expect(emailVerificationService.sendVerification).not.toHaveBeenCalled();
+    expect(userTokenService.revokeAll).not.toHaveBeenCalled();
+  });
+
+  describe('findPaginated', () => {
+    it('filters, sorts and pages the user list', async () => {
+      prisma.user.findMany.mockResolvedValue([user]);
+      prisma.user.count.mockResolvedValue(41);
+      const createdFrom = new Date('2026-01-01T00:00:00Z');
+
+      const page = await service.findPaginated({
+        role: 'ADMIN',
+        isActive: true,
+        email: 'Example.COM',
+        createdFrom,
+        sortBy: 'email',
+        order: 'asc',
+        page: 3,
+        limit: 20,
+      });
+
+      const where = {
+        role: 'ADMIN',
+        isActive: true,
+        email: { contains: 'Example.COM', mode: 'insensitive' },
+        createdAt: { gte: createdFrom, lte: undefined },
+      };
+      expect(prisma.user.findMany).toHaveBeenCalledWith({
+        where,
+        omit: { password: true, mfaSecret: true },
+        orderBy: [{ email: 'asc' }, { id: 'asc' }],
+        skip: 40,
+        take: 20,
+      });
+      expect(prisma.user.count).toHaveBeenCalledWith({ where });
+      expect(page).toEqual({ items: [user], total: 41, page: 3, limit: 20 });
+    });
+
+    it('defaults to the newest users first', async () => {
+      prisma.user.findMany.mockResolvedValue([]);
+      prisma.user.count.mockResolvedValue(0);
+
+      await expect(service.findPaginated({})).resolves.toMatchObject({
+        page: 1,
+        limit: 20,
+      });
+      expect(prisma.user.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+          skip: 0,
+          take: 20,
+        }),
+      );
+    });
+  });
 });
@@ -2,102 +2,70 @@ import {
   Controller,
   Get,
   Param,
-  Post,
   Body,
   HttpCode,
   Patch,
-  UseGuards,
-  Request,
-  UnauthorizedException,
+  Post,
 } from '@nestjs/common';
 import { UsersService } from './users.service';
-import { CreateUserDto } from './dto/create-user.dto';
-import { LoginUserDto } from './dto/login-user.dto';
 import { HttpStatus } from '@nestjs/common';
 import { UpdateUserDto } from './dto/update-user.dto';
-import { JwtAuthGuard } from 'src/auth/guards/jwt-auth.guard';
+import type { AuthenticatedUser } from 'src/common/decorators/user.decorator';
 import { User } from 'src/common/decorators/user.decorator';
-import { RolesGuard } from 'src/auth/guards/roles.guard';
-import { Roles } from 'src/common/decorators/role.decorator';
-import { UserRole } from '@prisma/client';
+import { InteractiveOnly } from 'src/common/decorators/interactive-only.decorator';
+import { RequirePermissions } from 'src/common/decorators/permissions.decorator';
+import { CheckPolicies } from 'src/common/decorators/check-policies.decorator';
+import { UpdateUserPolicy } from './policies/update-user.policy';
+import { ReadUserPolicy } from './policies/read-user.policy';
+import { UserEntity } from './entities/user.entity';
+import { ProfileResponseDto } from './dto/profile-response.dto';
 
-
-interface AuthenticatedUser {
-  userId: string;
-  email: string;
-  name?: string;
-  role?: string;
-  tokenId?: string;
-}
-
-// interface AuthenticatedRequest extends Request {
-//   user: AuthenticatedUser;
-// }
 @Controller('users')
-@UseGuards(JwtAuthGuard)
 export class UserController {
   constructor(private usersService: UsersService) {}
 
-  @UseGuards(JwtAuthGuard)
   @Get('profile')
-  getProfile(@User() user: AuthenticatedUser) {
-    return {
-      userId: user.userId,
-      email: user.email,
-      name: user.name,
-      role: user.role,
-    };
+  @RequirePermissions('profile:read')
+  getProfile(@User() user: AuthenticatedUser): ProfileResponseDto {
+    return new ProfileResponseDto(user);
   }
 
   @Get()
-  @UseGuards(RolesGuard)
-  @Roles(UserRole.ADMIN)
-  findAll(@User() user) {
-    console.log('Authenticated user: ', user);
-    return this.usersService.findAll();
-  }
-
-  @UseGuards(JwtAuthGuard)
-  @Get('me')
-  getMe(@User() user: AuthenticatedUser) {
-    return {
-      userId: user.userId,
-      email: user.email,
-      name: user.name,
-      role: user.role,
-    };
+  @RequirePermissions('users:read')
+  async findAll(): Promise<UserEntity[]> {
+    const users = await this.usersService.findAll();
+    return users.map((user) => new UserEntity(user));
   }
 
-  @UseGuards(JwtAuthGuard)
+  // whose profile may be read is up to the policy
   @Get(':id')
-  findOne(@Param('id') id: string) {
-    return this.usersService.findOne(id);
+  @RequirePermissions('profile:read')
+  @CheckPolicies(ReadUserPolicy)
+  async findOne(@Param('id') id: string): Promise<UserEntity> {
+    return new UserEntity(await this.usersService.findOne(id));
   }
 
-  @Post()
-  @HttpCode(HttpStatus.CREATED)
-  create(@Body() createUserDto: CreateUserDto) {
-    return this.usersService.create(createUserDto);
-  }
-
-  @Post('login')
-  @HttpCode(HttpStatus.OK)
-  login(@Body() loginUserDto: LoginUserDto) {
-    return this.usersService.login(loginUserDto);
-  }
-
-  @UseGuards(JwtAuthGuard)
+  // owners edit their own profile, managers (de)activate users, admins anything
+  // can change the email and password, so never from an API key
   @Patch(':id')
+  @InteractiveOnly()
+  @RequirePermissions('profile:write')
+  @CheckPolicies(UpdateUserPolicy)
   @HttpCode(HttpStatus.OK)
-  update(
+  async update(
     @Body() updateUserDto: UpdateUserDto,
     @Param('id') id: string,
     @User() user: AuthenticatedUser,
-  ) {
-    if (user.userId === id) {
-      return this.usersService.update(updateUserDto, id);
-    } else {
-      throw new UnauthorizedException('You can only update your own profile');
-    }
+  ): Promise<UserEntity> {
+    return new UserEntity(
+      await this.usersService.update(updateUserDto, id, user.userId),
+    );
+  }
+
+  @Post(':id/unlock')
+  @RequirePermissions('users:write')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async unlock(@Param('id') id: string) {
+    await this.usersService.unlock(id);
   }
 }
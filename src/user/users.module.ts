@@ -3,12 +3,23 @@ import { UserController } from './users.controller';
 import { UsersService } from './users.service';
 import { PrismaModule } from 'prisma/prisma.module';
 import { CommonModule } from 'src/common/common.module';
-import { AuthModule } from 'src/auth/auth.module';
+import { AuditModule } from 'src/audit/audit.module';
+import { UpdateUserPolicy } from './policies/update-user.policy';
+import { SetUserActivePolicy } from './policies/set-user-active.policy';
+import { ReadUserPolicy } from './policies/read-user.policy';
+import { AdminUsersController } from './admin-users.controller';
+import { RegistrationController } from './registration.controller';
 
 @Module({
-  imports: [PrismaModule, CommonModule, AuthModule],
-  controllers: [UserController],
-  providers: [UsersService],
+  // AuthModule.forRoot is global, so its services need no import here
+  imports: [PrismaModule, CommonModule, AuditModule],
+  controllers: [UserController, AdminUsersController, RegistrationController],
+  providers: [
+    UsersService,
+    ReadUserPolicy,
+    UpdateUserPolicy,
+    SetUserActivePolicy,
+  ],
   exports: [UsersService],
 })
 export class UserModule {}
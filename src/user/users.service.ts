@@ -2,33 +2,59 @@ import {
   ConflictException,
   Injectable,
   NotFoundException,
-  UnauthorizedException,
 } from '@nestjs/common';
 import { PrismaService } from 'prisma/prisma.service';
-import { User, UserRole } from '@prisma/client';
+import {
+  AuditAction,
+  Prisma,
+  User,
+  UserRole,
+  UserTokenType,
+} from '@prisma/client';
 import { PasswordService } from 'src/common/services/password.service';
 import { CreateUserDto } from './dto/create-user.dto';
-import { LoginUserDto } from './dto/login-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
-import { AuthJwtService } from 'src/auth/services/jwt/jwt.service';
-import { SessionService } from 'src/auth/services/session/session.service';
+import { AdminUserQueryDto } from './dto/admin-user-query.dto';
+import { EmailVerificationService } from 'src/auth/services/email-verification/email-verification.service';
+import { LoginThrottleService } from 'src/auth/services/login-throttle/login-throttle.service';
+import { AuditService } from 'src/audit/audit.service';
+import { PermissionService } from 'src/auth/services/permission/permission.service';
+import { PasswordPolicyService } from 'src/auth/services/password-policy/password-policy.service';
+import { RefreshTokenService } from 'src/auth/services/refresh-token/refresh-token.service';
+import { TokenVersionService } from 'src/auth/services/token-version/token-version.service';
+import { UserTokenService } from 'src/auth/services/user-token/user-token.service';
+
+// fields only admin routes may pass to update()
+export interface AdminUserChanges {
+  role?: UserRole;
+  isActive?: boolean;
+}
 
 @Injectable()
 export class UsersService {
   constructor(
     private prisma: PrismaService,
     private passwordService: PasswordService,
-    private jwtService: AuthJwtService,
-    private sessionService: SessionService,
+    private emailVerificationService: EmailVerificationService,
+    private loginThrottleService: LoginThrottleService,
+    private auditService: AuditService,
+    private permissionService: PermissionService,
+    private passwordPolicyService: PasswordPolicyService,
+    private refreshTokenService: RefreshTokenService,
+    private tokenVersionService: TokenVersionService,
+    private userTokenService: UserTokenService,
   ) {}
 
   async findAll() {
-    return this.prisma.user.findMany();
+    return this.prisma.user.findMany({
+      omit: { password: true, mfaSecret: true },
+    });
   }
 
-  async findOne(id: string): Promise<User> {
+  async findOne(id: string): Promise<Omit<User, 'password' | 'mfaSecret'>> {
     const user = await this.prisma.user.findUnique({
       where: { id },
+      omit: { password: true, mfaSecret: true },
     });
 
     if (!user) {
@@ -38,6 +64,39 @@ export class UsersService {
     return user;
   }
 
+  /**
+   * Page through users for the admin API
+   * @returns The page of users, newest first unless sorted otherwise
+   */
+  async findPaginated(query: AdminUserQueryDto) {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 20;
+    const where: Prisma.UserWhereInput = {
+      role: query.role,
+      isActive: query.isActive,
+      email: query.email
+        ? { contains: query.email, mode: 'insensitive' }
+        : undefined,
+      createdAt: { gte: query.createdFrom, lte: query.createdTo },
+    };
+
+    const [items, total] = await this.prisma.$transaction([
+      this.prisma.user.findMany({
+        where,
+        omit: { password: true, mfaSecret: true },
+        orderBy: [
+          { [query.sortBy ?? 'createdAt']: query.order ?? 'desc' },
+          { id: 'asc' },
+        ],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.user.count({ where }),
+    ]);
+
+    return { items, total, page, limit };
+  }
+
   async findByEmail(email: string) {
     const user = await this.prisma.user.findUnique({ where: { email } });
     return user;
@@ -47,90 +106,69 @@ export class UsersService {
     return user;
   }
 
-  async login(loginUserDto: LoginUserDto) {
-    const { email } = loginUserDto;
-    const user = await this.findByEmail(email);
-
-    if (!user) {
-      throw new NotFoundException('Invalid Email or Password');
-    }
-
-    if (!user.isActive) {
-      throw new UnauthorizedException('Account is Inactive');
-    }
-
-    //up next is to verify the hashed password with the one that was passed in the dto
-
-    const isVerified = await this.passwordService.comparePassword(
-      loginUserDto.password,
-      user.password,
-    );
-
-    if (!isVerified) {
-      throw new UnauthorizedException('Invalid Email or Passowrd');
-    }
-
-    //upnext generate the acces token using the AuthJwtService
-    const { token, tokenId } = await this.jwtService.generateToken(
-      user.id,
-      user.email,
-      user.role,
-    );
-
-    // up next create session in redis using the tokenId
-    await this.sessionService.createSession(tokenId, {
-      userId: user.id,
-      email: user.email,
-      role: user.role as UserRole,
-      createdAt: new Date().toDateString(),
-    });
-
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const { password, ...userWithoutPassword } = user;
-    return {
-      user: userWithoutPassword,
-      accessToken: token,
-    };
-  }
-
   async create(createUserDto: CreateUserDto) {
     const existingUser = await this.findByEmail(createUserDto.email);
     if (existingUser) {
       throw new ConflictException('User with this email already exists');
     }
+    await this.passwordPolicyService.validate(createUserDto.password, {
+      email: createUserDto.email,
+      name: createUserDto.name,
+    });
     const hashedPassword = await this.passwordService.hashPassword(
       createUserDto.password,
     );
-    // DTO validates role via @IsEnum; default is valid UserRole
-    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment -- CreateUserDto.role is validated; fallback 'USER' is valid enum
-    const role = (createUserDto.role ?? 'USER') as UserRole;
-    return this.prisma.user.create({
+    // public signup always creates a regular user; see InvitationService
+    const user = await this.prisma.user.create({
       data: {
         email: createUserDto.email,
         password: hashedPassword,
         name: createUserDto.name,
-        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment -- role is UserRole (set above)
-        role,
+        role: UserRole.USER,
       },
     });
+
+    await this.emailVerificationService.sendVerification(user);
+
+    return user;
   }
 
-  async update(updateUserDto: UpdateUserDto, id: string) {
+  /**
+   * Apply a profile update, or an admin-only change of role or isActive
+   * @param actorId - Who made the change, for the audit log
+   */
+  async update(
+    updateUserDto: UpdateUserDto & AdminUserChanges,
+    id: string,
+    actorId?: string,
+  ) {
     const user = await this.findById(id);
 
-    if (updateUserDto.email) {
-      const emailExist = await this.findByEmail(updateUserDto.email);
+    if (!user) {
+      throw new NotFoundException(`User with the id ${id} does not exist`);
+    }
+
+    const newEmail =
+      updateUserDto.email !== user.email ? updateUserDto.email : undefined;
+    if (newEmail) {
+      const emailExist = await this.findByEmail(newEmail);
       if (emailExist) {
         throw new ConflictException('user with this email already exists');
       }
     }
 
-    if (!user) {
-      throw new NotFoundException(`User with the id ${id} does not exist`);
+    const updateData: Prisma.UserUpdateInput = { ...updateUserDto };
+    // the new address has to be confirmed before it counts as verified
+    if (newEmail) {
+      updateData.emailVerified = false;
+      updateData.emailVerifiedAt = null;
     }
-
-    const updateData: Partial<UpdateUserDto> = { ...updateUserDto };
     if (updateUserDto.password) {
+      await this.passwordPolicyService.validate(updateUserDto.password, {
+        userId: id,
+        email: updateUserDto.email ?? user.email,
+        name: updateUserDto.name ?? user.name,
+      });
       updateData.password = await this.passwordService.hashPassword(
         updateUserDto.password,
       );
@@ -141,9 +179,86 @@ export class UsersService {
       data: updateData,
     });
 
+    if (user.password !== updatedUser.password) {
+      await this.passwordPolicyService.recordPreviousPassword(
+        id,
+        user.password,
+      );
+    }
+    if (user.role !== updatedUser.role) {
+      await this.permissionService.invalidate(id);
+    }
+    await this.revokeStaleTokens(user, updatedUser);
+    await this.auditChanges(user, updatedUser, actorId ?? id);
+    if (newEmail) {
+      await this.emailVerificationService.sendVerification(updatedUser);
+    }
+
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const { password, ...updatedUserWithoutPassword } = updatedUser;
+    const { password, mfaSecret, ...updatedUserWithoutPassword } = updatedUser;
 
     return updatedUserWithoutPassword;
   }
+
+  async unlock(id: string) {
+    const user = await this.findOne(id);
+
+    await this.prisma.user.update({
+      where: { id },
+      data: { lockedUntil: null },
+    });
+    await this.loginThrottleService.reset(user.email);
+  }
+
+  // make a security-relevant change apply to tokens that are already out
+  private async revokeStaleTokens(before: User, after: User) {
+    const loggedOut =
+      before.password !== after.password ||
+      (before.isActive && !after.isActive);
+    if (loggedOut) {
+      await this.refreshTokenService.revokeAllForUser(after.id);
+    } else if (before.role !== after.role) {
+      // sessions survive, but access tokens carrying the old role must be
+      // refreshed; the new one is issued with the current role
+      await this.tokenVersionService.bump(after.id);
+    }
+    // a reset link proves the mailbox it went to, so one sent to the old
+    // address must not verify the new one
+    if (before.email !== after.email) {
+      await this.userTokenService.revokeAll(
+        after.id,
+        UserTokenType.PASSWORD_RESET,
+      );
+    }
+  }
+
+  // record the security-relevant parts of a user update
+  private async auditChanges(before: User, after: User, actorId: string) {
+    if (before.password !== after.password) {
+      await this.auditService.record({
+        action: AuditAction.PASSWORD_CHANGE,
+        actorId,
+        targetId: after.id,
+      });
+    }
+
+    if (before.role !== after.role) {
+      await this.auditService.record({
+        action: AuditAction.ROLE_CHANGE,
+        actorId,
+        targetId: after.id,
+        metadata: { from: before.role, to: after.role },
+      });
+    }
+
+    if (before.isActive !== after.isActive) {
+      await this.auditService.record({
+        action: after.isActive
+          ? AuditAction.ACCOUNT_ACTIVATED
+          : AuditAction.ACCOUNT_DEACTIVATED,
+        actorId,
+        targetId: after.id,
+      });
+    }
+  }
 }